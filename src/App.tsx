@@ -1,41 +1,133 @@
-import { useReducer } from 'react';
-import type { ReceiptDraft, Person, Item, CalculationResult } from './types';
+import { useEffect, useReducer, useState } from 'react';
+import type {
+  ReceiptDraft,
+  Person,
+  Item,
+  Charge,
+  Discount,
+  CalculationResult,
+  Diagnostic,
+  LedgerReceipt,
+  PayerRule,
+  PeopleDirectory
+} from './types';
 import { compute } from './calculator';
 import { validateDraft } from './parsing';
+import { mergeDiagnostics } from './diagnostics';
+import type { DiagnosticTarget } from './diagnostics';
+import { createHistory, recordHistory, redo, undo } from './history';
+import type { History } from './history';
+import { historyShortcut } from './shortcuts';
+import { receiptLabel } from './ledger';
+import { emptyDirectory, withPersonDetails } from './directory';
+import { mergeItems, splitItem } from './itemSplit';
+import type { SplitPart } from './itemSplit';
+import { applyPayerRules } from './rules';
+import {
+  deleteDirectoryPerson,
+  deletePeopleGroup,
+  listPayerRules,
+  listSavedReceipts,
+  loadDirectory,
+  saveDirectory,
+  saveDirectoryPerson,
+  savePayerRules,
+  savePeopleGroup,
+  saveReceipt,
+  updatePersonInSavedReceipts
+} from './storage';
 import PeopleBankPanel from './components/PeopleBankPanel';
+import PeopleDirectoryPanel from './components/PeopleDirectoryPanel';
+import PayerRulesPanel from './components/PayerRulesPanel';
 import ReceiptDraftEditor from './components/ReceiptDraftEditor';
 import ResultsPanel from './components/ResultsPanel';
+import SavedReceiptsPanel from './components/SavedReceiptsPanel';
+import HistoryControls from './components/HistoryControls';
 import ImportExportPanel from './components/ImportExportPanel';
+import LedgerPanel from './components/LedgerPanel';
 import './App.css';
 
 type AppState = {
   draft: ReceiptDraft;
   result: CalculationResult | null;
-  warnings: string[];
+  diagnostics: Diagnostic[];
+  receipts: LedgerReceipt[]; // every receipt in the ledger, the active one included
+  activeReceiptId: string;
 };
 
 type AppAction = 
   | { type: 'ADD_PERSON'; person: Person }
+  | { type: 'ADD_PEOPLE'; people: Person[]; groupName?: string } // e.g. everyone in a directory group
   | { type: 'REMOVE_PERSON'; personId: string }
   | { type: 'UPDATE_PERSON'; person: Person }
   | { type: 'ADD_ITEM'; item: Item }
   | { type: 'UPDATE_ITEM'; item: Item }
   | { type: 'REMOVE_ITEM'; itemId: string }
+  | { type: 'SPLIT_ITEM'; itemId: string; parts: SplitPart[] }
+  | { type: 'MERGE_ITEMS'; itemIds: string[] }
+  | { type: 'APPLY_PAYER_RULES'; rules: PayerRule[] }
   | { type: 'UPDATE_TAX'; tax: number }
+  | { type: 'ADD_CHARGE'; charge: Charge }
+  | { type: 'UPDATE_CHARGE'; charge: Charge }
+  | { type: 'REMOVE_CHARGE'; chargeId: string }
+  | { type: 'ADD_DISCOUNT'; discount: Discount }
+  | { type: 'UPDATE_DISCOUNT'; discount: Discount }
+  | { type: 'REMOVE_DISCOUNT'; discountId: string }
   | { type: 'UPDATE_RECEIPT_META'; meta: Partial<ReceiptDraft> }
-  | { type: 'LOAD_DRAFT'; draft: ReceiptDraft };
+  | { type: 'LOAD_DRAFT'; draft: ReceiptDraft; receiptId?: string } // receiptId: the saved record it came from; none for imports
+  | { type: 'ADD_RECEIPT' }
+  | { type: 'SELECT_RECEIPT'; receiptId: string }
+  | { type: 'REMOVE_RECEIPT'; receiptId: string };
+
+type HistoryAction =
+  | { type: 'UNDO' }
+  | { type: 'REDO' }
+  | { type: 'RESTORE'; draft: ReceiptDraft; receiptId: string }; // reopens a saved receipt as the start of the session
+
+const emptyDraft: ReceiptDraft = {
+  currency: 'USD',
+  taxTotal: 0,
+  items: [],
+  people: []
+};
+
+// Receipt IDs double as saved-receipt keys, so they must be unique across sessions
+const initialReceiptId = `receipt_${Date.now()}`;
 
 const initialState: AppState = {
-  draft: {
-    currency: 'USD',
-    taxTotal: 0,
-    items: [],
-    people: []
-  },
+  draft: emptyDraft,
   result: null,
-  warnings: []
+  diagnostics: [],
+  receipts: [{ id: initialReceiptId, draft: emptyDraft }],
+  activeReceiptId: initialReceiptId
 };
 
+const AUTOSAVE_DELAY_MS = 500;
+const HIGHLIGHT_MS = 2000;
+
+// Makes `draft` the active receipt's draft and recomputes its results
+function withDraft(state: AppState, draft: ReceiptDraft): AppState {
+  // Always compute results, even with errors (items without payers are just excluded from calculations)
+  const result = compute(draft);
+  const diagnostics = mergeDiagnostics(validateDraft(draft), result.diagnostics);
+
+  return {
+    ...state,
+    draft,
+    result,
+    diagnostics,
+    receipts: state.receipts.map(receipt =>
+      receipt.id === state.activeReceiptId ? { ...receipt, draft } : receipt
+    )
+  };
+}
+
+function selectReceipt(state: AppState, receiptId: string): AppState {
+  const receipt = state.receipts.find(r => r.id === receiptId);
+  if (!receipt) return state;
+  return withDraft({ ...state, activeReceiptId: receipt.id }, receipt.draft);
+}
+
 function appReducer(state: AppState, action: AppAction): AppState {
   let newDraft: ReceiptDraft;
 
@@ -53,19 +145,54 @@ function appReducer(state: AppState, action: AppAction): AppState {
         people: state.draft.people.filter(p => p.id !== action.personId),
         items: state.draft.items.map(item => ({
           ...item,
-          payers: item.payers.filter(payerId => payerId !== action.personId)
-        }))
+          payers: item.payers.filter(payerId => payerId !== action.personId),
+          weights: item.weights && Object.fromEntries(
+            Object.entries(item.weights).filter(([payerId]) => payerId !== action.personId)
+          ),
+          unitClaims: item.unitClaims && Object.fromEntries(
+            Object.entries(item.unitClaims).filter(([payerId]) => payerId !== action.personId)
+          )
+        })),
+        charges: state.draft.charges?.map(charge => ({
+          ...charge,
+          assignedTo: charge.assignedTo?.filter(personId => personId !== action.personId)
+        })),
+        discounts: state.draft.discounts?.map(discount => ({
+          ...discount,
+          assignedTo: discount.assignedTo?.filter(personId => personId !== action.personId)
+        })),
+        payments: state.draft.payments?.filter(payment => payment.personId !== action.personId),
+        rounding: state.draft.rounding && {
+          ...state.draft.rounding,
+          absorberId: state.draft.rounding.absorberId === action.personId
+            ? undefined
+            : state.draft.rounding.absorberId
+        }
       };
       break;
     
-    case 'UPDATE_PERSON':
+    case 'ADD_PEOPLE': {
+      const added = action.people.filter(person => !state.draft.people.some(p => p.id === person.id));
+      if (added.length === 0) return state;
       newDraft = {
         ...state.draft,
-        people: state.draft.people.map(p => 
-          p.id === action.person.id ? action.person : p
-        )
+        people: [...state.draft.people, ...added]
       };
       break;
+    }
+
+    // IDs are shared across receipts, so the change applies to every open receipt
+    case 'UPDATE_PERSON': {
+      const { person } = action;
+      if (!state.receipts.some(receipt => receipt.draft.people.some(p => p.id === person.id))) return state;
+      return withDraft(
+        {
+          ...state,
+          receipts: state.receipts.map(receipt => ({ ...receipt, draft: withPersonDetails(receipt.draft, person) }))
+        },
+        withPersonDetails(state.draft, person)
+      );
+    }
     
     case 'ADD_ITEM':
       newDraft = {
@@ -86,9 +213,25 @@ function appReducer(state: AppState, action: AppAction): AppState {
     case 'REMOVE_ITEM':
       newDraft = {
         ...state.draft,
-        items: state.draft.items.filter(item => item.id !== action.itemId)
+        items: state.draft.items.filter(item => item.id !== action.itemId),
+        discounts: state.draft.discounts?.filter(discount => discount.itemId !== action.itemId)
       };
       break;
+
+    case 'SPLIT_ITEM':
+      newDraft = splitItem(state.draft, action.itemId, action.parts);
+      if (newDraft === state.draft) return state;
+      break;
+
+    case 'MERGE_ITEMS':
+      newDraft = mergeItems(state.draft, action.itemIds);
+      if (newDraft === state.draft) return state;
+      break;
+
+    case 'APPLY_PAYER_RULES':
+      newDraft = applyPayerRules(state.draft, action.rules).draft;
+      if (newDraft === state.draft) return state;
+      break;
     
     case 'UPDATE_TAX':
       newDraft = {
@@ -97,6 +240,52 @@ function appReducer(state: AppState, action: AppAction): AppState {
       };
       break;
     
+    case 'ADD_CHARGE':
+      newDraft = {
+        ...state.draft,
+        charges: [...(state.draft.charges ?? []), action.charge]
+      };
+      break;
+    
+    case 'UPDATE_CHARGE':
+      newDraft = {
+        ...state.draft,
+        charges: state.draft.charges?.map(charge =>
+          charge.id === action.charge.id ? action.charge : charge
+        )
+      };
+      break;
+    
+    case 'REMOVE_CHARGE':
+      newDraft = {
+        ...state.draft,
+        charges: state.draft.charges?.filter(charge => charge.id !== action.chargeId)
+      };
+      break;
+    
+    case 'ADD_DISCOUNT':
+      newDraft = {
+        ...state.draft,
+        discounts: [...(state.draft.discounts ?? []), action.discount]
+      };
+      break;
+    
+    case 'UPDATE_DISCOUNT':
+      newDraft = {
+        ...state.draft,
+        discounts: state.draft.discounts?.map(discount =>
+          discount.id === action.discount.id ? action.discount : discount
+        )
+      };
+      break;
+    
+    case 'REMOVE_DISCOUNT':
+      newDraft = {
+        ...state.draft,
+        discounts: state.draft.discounts?.filter(discount => discount.id !== action.discountId)
+      };
+      break;
+    
     case 'UPDATE_RECEIPT_META':
       newDraft = {
         ...state.draft,
@@ -104,48 +293,338 @@ function appReducer(state: AppState, action: AppAction): AppState {
       };
       break;
     
-    case 'LOAD_DRAFT':
-      newDraft = action.draft;
-      break;
+    case 'LOAD_DRAFT': {
+      const { receiptId } = action;
+      if (receiptId === state.activeReceiptId) {
+        newDraft = action.draft;
+        break;
+      }
+      if (receiptId && state.receipts.some(r => r.id === receiptId)) {
+        return withDraft({ ...state, activeReceiptId: receiptId }, action.draft);
+      }
+      // Imports and saved receipts open as a receipt of their own, so autosave
+      // never writes them over the record of whatever was open and that receipt
+      // stays in the ledger. A blank receipt is replaced. Saved receipts keep
+      // their ID so autosave keeps writing to the same record.
+      const receipt: LedgerReceipt = { id: receiptId ?? `receipt_${Date.now()}`, draft: action.draft };
+      const blank = state.draft.items.length === 0 && state.draft.people.length === 0;
+      const receipts = blank
+        ? state.receipts.map(r => r.id === state.activeReceiptId ? receipt : r)
+        : [...state.receipts, receipt];
+      return withDraft({ ...state, receipts, activeReceiptId: receipt.id }, action.draft);
+    }
+
+    case 'ADD_RECEIPT': {
+      // New receipts start with the current people so IDs line up across the ledger
+      const receipt: LedgerReceipt = {
+        id: `receipt_${Date.now()}`,
+        draft: { ...emptyDraft, currency: state.draft.currency, people: state.draft.people }
+      };
+      return selectReceipt({ ...state, receipts: [...state.receipts, receipt] }, receipt.id);
+    }
+
+    case 'SELECT_RECEIPT':
+      return selectReceipt(state, action.receiptId);
+
+    case 'REMOVE_RECEIPT': {
+      if (state.receipts.length <= 1) return state;
+      const index = state.receipts.findIndex(r => r.id === action.receiptId);
+      const receipts = state.receipts.filter(r => r.id !== action.receiptId);
+      if (action.receiptId !== state.activeReceiptId) {
+        return { ...state, receipts };
+      }
+      return selectReceipt({ ...state, receipts }, receipts[Math.max(0, index - 1)].id);
+    }
     
     default:
       return state;
   }
 
-  const warnings = validateDraft(newDraft);
-  // Always compute results, even with warnings (items without payers are just excluded from calculations)
-  const result = compute(newDraft);
+  return withDraft(state, newDraft);
+}
 
-  return {
-    draft: newDraft,
-    result,
-    warnings
-  };
+const META_LABELS: Partial<Record<keyof ReceiptDraft, string>> = {
+  title: 'title',
+  storeName: 'store name',
+  purchasedAt: 'date',
+  currency: 'currency',
+  taxMode: 'tax mode',
+  pricesIncludeTax: 'tax-inclusive pricing',
+  defaultTaxRate: 'default tax rate',
+  categoryTaxRates: 'category tax rates',
+  settlement: 'settlement currency',
+  rounding: 'rounding',
+  payments: 'payers',
+  printedSubtotal: 'printed subtotal',
+  printedTotal: 'printed total',
+  totalsOverride: 'final override'
+};
+
+// Short history label for an action, plus a key so repeated edits to the same
+// field (typing) collapse into one entry
+function describeAction(state: AppState, action: AppAction): { label: string; key?: string } {
+  const { draft } = state;
+  const personName = (personId: string) => draft.people.find(p => p.id === personId)?.name ?? personId;
+  const itemName = (itemId: string) => draft.items.find(i => i.id === itemId)?.name ?? 'item';
+
+  switch (action.type) {
+    case 'ADD_PERSON':
+      return { label: `Added ${action.person.name}` };
+    case 'ADD_PEOPLE': {
+      const count = action.people.filter(person => !draft.people.some(p => p.id === person.id)).length;
+      return { label: action.groupName ? `Added ${action.groupName}` : `Added ${count} people` };
+    }
+    case 'REMOVE_PERSON':
+      return { label: `Removed ${personName(action.personId)}` };
+    case 'UPDATE_PERSON': {
+      // The person may only be on another open receipt
+      const current = state.receipts.flatMap(r => r.draft.people).find(p => p.id === action.person.id);
+      return current && current.name !== action.person.name
+        ? { label: `Renamed ${current.name} to ${action.person.name}` }
+        : { label: `Updated ${action.person.name}'s payment handles` };
+    }
+    case 'ADD_ITEM':
+      return { label: `Added ${action.item.name}` };
+    case 'UPDATE_ITEM':
+      return { label: `Edited ${action.item.name}`, key: `item:${action.item.id}` };
+    case 'REMOVE_ITEM':
+      return { label: `Removed ${itemName(action.itemId)}` };
+    case 'SPLIT_ITEM':
+      return { label: `Split ${itemName(action.itemId)} into ${action.parts.length}` };
+    case 'MERGE_ITEMS':
+      return { label: `Merged ${action.itemIds.length} ${itemName(action.itemIds[0])} lines` };
+    case 'APPLY_PAYER_RULES':
+      return { label: 'Applied payer rules' };
+    case 'UPDATE_TAX':
+      return { label: `Changed tax to ${action.tax}`, key: 'tax' };
+    case 'ADD_CHARGE':
+      return { label: `Added ${action.charge.name}` };
+    case 'UPDATE_CHARGE':
+      return { label: `Edited ${action.charge.name}`, key: `charge:${action.charge.id}` };
+    case 'REMOVE_CHARGE':
+      return { label: `Removed ${draft.charges?.find(c => c.id === action.chargeId)?.name ?? 'charge'}` };
+    case 'ADD_DISCOUNT':
+      return { label: `Added ${action.discount.name}` };
+    case 'UPDATE_DISCOUNT':
+      return { label: `Edited ${action.discount.name}`, key: `discount:${action.discount.id}` };
+    case 'REMOVE_DISCOUNT':
+      return { label: `Removed ${draft.discounts?.find(d => d.id === action.discountId)?.name ?? 'discount'}` };
+    case 'UPDATE_RECEIPT_META': {
+      const fields = Object.keys(action.meta) as Array<keyof ReceiptDraft>;
+      const names = fields.map(field => META_LABELS[field] ?? field);
+      return { label: `Changed ${names.join(', ')}`, key: `meta:${fields.join(',')}` };
+    }
+    case 'LOAD_DRAFT':
+      return { label: `Loaded ${action.draft.storeName || action.draft.title || 'receipt'}` };
+    case 'ADD_RECEIPT':
+      return { label: 'Added receipt' };
+    case 'SELECT_RECEIPT': {
+      const index = state.receipts.findIndex(r => r.id === action.receiptId);
+      return { label: `Switched to ${index >= 0 ? receiptLabel(state.receipts[index], index) : 'receipt'}` };
+    }
+    case 'REMOVE_RECEIPT': {
+      const index = state.receipts.findIndex(r => r.id === action.receiptId);
+      return { label: `Removed ${index >= 0 ? receiptLabel(state.receipts[index], index) : 'receipt'}` };
+    }
+  }
+}
+
+function historyReducer(history: History<AppState>, action: AppAction | HistoryAction): History<AppState> {
+  switch (action.type) {
+    case 'UNDO':
+      return undo(history);
+    case 'REDO':
+      return redo(history);
+    case 'RESTORE':
+      return createHistory(appReducer(history.present, { type: 'LOAD_DRAFT', draft: action.draft, receiptId: action.receiptId }));
+  }
+
+  const next = appReducer(history.present, action);
+  if (next === history.present) return history;
+
+  const { label, key } = describeAction(history.present, action);
+  return recordHistory(history, next, label, key);
 }
 
 function App() {
-  const [state, dispatch] = useReducer(appReducer, initialState);
+  const [history, dispatch] = useReducer(historyReducer, initialState, createHistory);
+  const state = history.present;
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [highlight, setHighlight] = useState<DiagnosticTarget | null>(null);
+  const [directory, setDirectory] = useState<PeopleDirectory>(emptyDirectory);
+  const [payerRules, setPayerRules] = useState<PayerRule[]>([]);
+
+  const refreshDirectory = () => loadDirectory()
+    .then(setDirectory)
+    .catch(error => setStorageError(error instanceof Error ? error.message : 'Could not load people'));
+
+  // Runs a directory change, then reloads the directory so every panel sees it
+  const changeDirectory = async (change: () => Promise<unknown>) => {
+    try {
+      await change();
+    } catch (error) {
+      setStorageError(error instanceof Error ? error.message : 'Could not update people');
+    }
+    await refreshDirectory();
+  };
+
+  // New people join the directory so they keep the same ID on later receipts
+  const handleAddPerson = (person: Person) => {
+    dispatch({ type: 'ADD_PERSON', person });
+    if (!directory.people.some(p => p.id === person.id)) {
+      changeDirectory(() => saveDirectoryPerson(person));
+    }
+  };
+
+  // Renames reach the open receipts through the reducer and saved ones through storage
+  const handleUpdatePerson = (person: Person) => {
+    dispatch({ type: 'UPDATE_PERSON', person });
+    changeDirectory(() => Promise.all([saveDirectoryPerson(person), updatePersonInSavedReceipts(person)]));
+  };
+
+  // Imported entries replace the ones with the same ID, so carry any renames along too
+  const handleImportDirectory = (imported: PeopleDirectory) => {
+    const renamed = imported.people.filter(person => {
+      const current = directory.people.find(p => p.id === person.id);
+      return current && (current.name !== person.name || JSON.stringify(current.handles) !== JSON.stringify(person.handles));
+    });
+    renamed.forEach(person => dispatch({ type: 'UPDATE_PERSON', person }));
+    changeDirectory(async () => {
+      await saveDirectory(imported);
+      for (const person of renamed) await updatePersonInSavedReceipts(person);
+    });
+  };
+
+  const handleChangeRules = (rules: PayerRule[]) => {
+    setPayerRules(rules);
+    savePayerRules(rules).catch(error => setStorageError(error instanceof Error ? error.message : 'Could not save rules'));
+  };
+
+  // Reopen the most recently saved receipt after a refresh
+  useEffect(() => {
+    listSavedReceipts()
+      .then(({ receipts: saved }) => {
+        if (saved[0]) {
+          dispatch({ type: 'RESTORE', draft: saved[0].draft, receiptId: saved[0].id });
+        }
+      })
+      .catch(error => setStorageError(error instanceof Error ? error.message : 'Storage unavailable'));
+  }, []);
+
+  // Later changes reload it through changeDirectory
+  useEffect(() => {
+    refreshDirectory();
+  }, []);
+
+  useEffect(() => {
+    listPayerRules()
+      .then(setPayerRules)
+      .catch(error => setStorageError(error instanceof Error ? error.message : 'Could not load rules'));
+  }, []);
+
+  // Autosave the active receipt shortly after each change; untouched blank drafts are skipped
+  const { draft: activeDraft, activeReceiptId } = state;
+  useEffect(() => {
+    if (activeDraft.items.length === 0 && activeDraft.people.length === 0) return;
+
+    const timer = setTimeout(() => {
+      saveReceipt(activeReceiptId, activeDraft)
+        .then(record => {
+          setLastSavedAt(record.savedAt);
+          setStorageError(null);
+        })
+        .catch(error => setStorageError(error instanceof Error ? error.message : 'Autosave failed'));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [activeDraft, activeReceiptId]);
+
+  // Scroll the row a diagnostic points at into view, then let the highlight fade
+  useEffect(() => {
+    if (!highlight) return;
+    document.querySelector('.diagnostic-highlight')?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setHighlight(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlight]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const shortcut = historyShortcut(event);
+      if (!shortcut) return;
+      event.preventDefault();
+      dispatch({ type: shortcut });
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   return (
     <div className="app">
       <header>
         <h1>Receipt Reviewer</h1>
         <p>Split receipts and calculate what everyone owes</p>
+        <HistoryControls
+          past={history.past.map(entry => entry.label)}
+          future={history.future.map(entry => entry.label)}
+          onUndo={() => dispatch({ type: 'UNDO' })}
+          onRedo={() => dispatch({ type: 'REDO' })}
+        />
       </header>
       
+      <LedgerPanel
+        receipts={state.receipts}
+        activeReceiptId={state.activeReceiptId}
+        onAddReceipt={() => dispatch({ type: 'ADD_RECEIPT' })}
+        onSelectReceipt={(receiptId) => dispatch({ type: 'SELECT_RECEIPT', receiptId })}
+        onRemoveReceipt={(receiptId) => dispatch({ type: 'REMOVE_RECEIPT', receiptId })}
+      />
+
       <main className="app-main">
         <div className="app-section">
           <PeopleBankPanel 
             people={state.draft.people}
-            onAddPerson={(person) => dispatch({ type: 'ADD_PERSON', person })}
-            onUpdatePerson={(person) => dispatch({ type: 'UPDATE_PERSON', person })}
+            directoryPeople={directory.people}
+            onAddPerson={handleAddPerson}
+            onUpdatePerson={handleUpdatePerson}
             onRemovePerson={(personId) => dispatch({ type: 'REMOVE_PERSON', personId })}
           />
+
+          <PeopleDirectoryPanel
+            directory={directory}
+            receiptPeople={state.draft.people}
+            onAddPeople={(people, groupName) => dispatch({ type: 'ADD_PEOPLE', people, groupName })}
+            onUpdatePerson={handleUpdatePerson}
+            onForgetPerson={(personId) => changeDirectory(() => deleteDirectoryPerson(personId))}
+            onSaveGroup={(group) => changeDirectory(() => savePeopleGroup(group))}
+            onRemoveGroup={(groupId) => changeDirectory(() => deletePeopleGroup(groupId))}
+            onImport={handleImportDirectory}
+          />
+
+          <PayerRulesPanel
+            rules={payerRules}
+            people={[...directory.people, ...state.draft.people.filter(p => !directory.people.some(d => d.id === p.id))]}
+            groups={directory.groups}
+            currency={state.draft.currency}
+            onChange={handleChangeRules}
+          />
           
           <div className="import-export-section">
             <ImportExportPanel
               onLoadDraft={(draft) => dispatch({ type: 'LOAD_DRAFT', draft })}
+              onPeopleCreated={(people) => changeDirectory(() => saveDirectory({ people, groups: [] }))}
               draft={state.draft}
+              directoryPeople={directory.people}
+              payerRules={payerRules}
+            />
+          </div>
+
+          <div className="saved-receipts-section">
+            <SavedReceiptsPanel
+              activeReceiptId={state.activeReceiptId}
+              lastSavedAt={lastSavedAt}
+              storageError={storageError}
+              onOpen={(record) => dispatch({ type: 'LOAD_DRAFT', draft: record.draft, receiptId: record.id })}
+              onRenameActive={(title) => dispatch({ type: 'UPDATE_RECEIPT_META', meta: { title } })}
             />
           </div>
         </div>
@@ -153,10 +632,23 @@ function App() {
         <div className="app-section">
           <ReceiptDraftEditor 
             draft={state.draft}
+            computedTax={state.result?.receiptTax}
+            reconciliation={state.result?.totalsReconciliation}
+            highlight={highlight}
             onAddItem={(item) => dispatch({ type: 'ADD_ITEM', item })}
             onUpdateItem={(item) => dispatch({ type: 'UPDATE_ITEM', item })}
             onRemoveItem={(itemId) => dispatch({ type: 'REMOVE_ITEM', itemId })}
+            onSplitItem={(itemId, parts) => dispatch({ type: 'SPLIT_ITEM', itemId, parts })}
+            onMergeItems={(itemIds) => dispatch({ type: 'MERGE_ITEMS', itemIds })}
+            payerRules={payerRules}
+            onApplyRules={() => dispatch({ type: 'APPLY_PAYER_RULES', rules: payerRules })}
             onUpdateTax={(tax) => dispatch({ type: 'UPDATE_TAX', tax })}
+            onAddCharge={(charge) => dispatch({ type: 'ADD_CHARGE', charge })}
+            onUpdateCharge={(charge) => dispatch({ type: 'UPDATE_CHARGE', charge })}
+            onRemoveCharge={(chargeId) => dispatch({ type: 'REMOVE_CHARGE', chargeId })}
+            onAddDiscount={(discount) => dispatch({ type: 'ADD_DISCOUNT', discount })}
+            onUpdateDiscount={(discount) => dispatch({ type: 'UPDATE_DISCOUNT', discount })}
+            onRemoveDiscount={(discountId) => dispatch({ type: 'REMOVE_DISCOUNT', discountId })}
             onUpdateMeta={(meta) => dispatch({ type: 'UPDATE_RECEIPT_META', meta })}
           />
         </div>
@@ -164,7 +656,8 @@ function App() {
         <div className="app-section">
           <ResultsPanel 
             result={state.result}
-            warnings={state.warnings}
+            diagnostics={state.diagnostics}
+            onSelectDiagnostic={(diagnostic) => setHighlight({ ...diagnostic })}
             people={state.draft.people}
             draft={state.draft}
           />
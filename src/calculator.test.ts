@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { ReceiptDraft, ResidualStrategy } from './types';
+import { compute } from './calculator';
+
+const people = ['z', 'a', 'b', 'c'].map(id => ({ id, name: id.toUpperCase() }));
+
+// 10.00 split three ways leaves one cent over; z has nothing on the receipt
+function thirdsDraft(residual: ResidualStrategy): ReceiptDraft {
+  return {
+    currency: 'USD',
+    taxTotal: 0,
+    rounding: { method: 'half-up', residual },
+    items: [{ id: 'pizza', name: 'Pizza', price: 10, payers: ['a', 'b', 'c'] }],
+    people
+  };
+}
+
+// One cent of tax shared by price comes to 0.002, 0.0035 and 0.0045, so
+// everyone rounds down and the cent is left over with distinct remainders
+function taxCentDraft(residual: ResidualStrategy): ReceiptDraft {
+  return {
+    currency: 'USD',
+    taxTotal: 0.01,
+    rounding: { method: 'half-up', residual },
+    items: [
+      { id: 'soup', name: 'Soup', price: 20, payers: ['a'] },
+      { id: 'pasta', name: 'Pasta', price: 35, payers: ['b'] },
+      { id: 'steak', name: 'Steak', price: 45, payers: ['c'] }
+    ],
+    people
+  };
+}
+
+function totals(draft: ReceiptDraft): Record<string, number> {
+  return Object.fromEntries(compute(draft).perPerson.map(person => [person.personId, person.total]));
+}
+
+describe('compute residual strategies', () => {
+  it('gives the leftover to the largest remainder', () => {
+    const result = compute(taxCentDraft('largest-remainder'));
+    expect(result.rounding.residualApplied).toEqual([{ personId: 'c', delta: 0.01 }]);
+    expect(totals(taxCentDraft('largest-remainder'))).toEqual({ z: 0, a: 20, b: 35, c: 45.01 });
+  });
+
+  it('rotates from the first person with a share', () => {
+    const result = compute(thirdsDraft('rotate'));
+    expect(result.rounding.residualApplied).toEqual([{ personId: 'a', delta: 0.01 }]);
+    expect(totals(thirdsDraft('rotate'))).toEqual({ z: 0, a: 3.34, b: 3.33, c: 3.33 });
+    expect(compute(taxCentDraft('rotate')).rounding.residualApplied).toEqual([{ personId: 'a', delta: 0.01 }]);
+  });
+
+  it('gives the leftover to whoever paid at the register', () => {
+    const draft = { ...thirdsDraft('payer'), payments: [{ personId: 'c', amount: 10 }] };
+    const result = compute(draft);
+    expect(result.rounding.absorberId).toBe('c');
+    expect(result.rounding.residualApplied).toEqual([{ personId: 'c', delta: 0.01 }]);
+  });
+
+  it('gives the leftover to the chosen absorber', () => {
+    const draft = thirdsDraft('payer');
+    draft.rounding = { method: 'half-up', residual: 'payer', absorberId: 'b' };
+    expect(compute(draft).rounding.residualApplied).toEqual([{ personId: 'b', delta: 0.01 }]);
+  });
+
+  it('falls back to the first person with a share when nobody paid', () => {
+    const result = compute(thirdsDraft('payer'));
+    expect(result.rounding.absorberId).toBe('a');
+    expect(result.rounding.residualApplied).toEqual([{ personId: 'a', delta: 0.01 }]);
+    expect(totals(thirdsDraft('payer')).z).toBe(0);
+  });
+});
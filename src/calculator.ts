@@ -1,32 +1,377 @@
 import Decimal from 'decimal.js';
-import type { ReceiptDraft, CalculationResult, PersonBreakdown } from './types';
+import type {
+  AllocationLine,
+  ReceiptDraft,
+  CalculationResult,
+  Diagnostic,
+  PersonBreakdown,
+  Item,
+  Charge,
+  Discount,
+  RoundingMethod,
+  RoundingPolicy
+} from './types';
+import { formatMoney, minorUnit, roundMoney } from './currency';
+import { diagnostic } from './diagnostics';
+import { reconcileTotals, reconciliationDiagnostics } from './reconcile';
+import { computeBalances, minimizeTransfers } from './settlement';
 
 // Configure Decimal.js for high precision
 Decimal.config({ precision: 20, rounding: Decimal.ROUND_HALF_UP });
 
-export function round2HalfUp(n: number): number {
-  return new Decimal(n).toDecimalPlaces(2, Decimal.ROUND_HALF_UP).toNumber();
+const ROUNDING_MODES: Record<RoundingMethod, Decimal.Rounding> = {
+  'half-up': Decimal.ROUND_HALF_UP,
+  'half-even': Decimal.ROUND_HALF_EVEN
+};
+
+export const DEFAULT_ROUNDING: RoundingPolicy = { method: 'half-up', residual: 'largest-remainder' };
+
+export function roundingPolicy(draft: ReceiptDraft): RoundingPolicy {
+  return { ...DEFAULT_ROUNDING, ...draft.rounding };
+}
+
+// What one person has been allocated so far, at full precision
+type PersonTotals = {
+  subtotal: Decimal;
+  discount: Decimal;
+  taxBase: Decimal; // taxable subtotal less any discounts that tax was figured after
+  itemTax: Decimal; // 'rates' mode: tax on taxBase before order-level discounts
+  ratedBase: Decimal; // 'rates' mode: taxBase before order-level discounts
+  taxShare: Decimal;
+  charges: Map<string, Decimal>;
+  total: Decimal;
+  // Per-item shares for the itemized statement. The person's tax is spread
+  // over their items in proportion to `taxWeight`.
+  items: Map<string, { name: string; fraction: Decimal; amount: Decimal; discount: Decimal; taxWeight: Decimal }>;
+  orderDiscounts: Map<string, Decimal>;
+};
+
+export function hasUnitClaims(item: Item): boolean {
+  return item.unitClaims !== undefined && Object.keys(item.unitClaims).length > 0;
+}
+
+// Resolves an item's payer weights into fractions that sum to 1.
+// Items with unit claims are split by units claimed; otherwise payers with a
+// missing weight count as 1. Non-positive weights are dropped.
+export function normalizeShares(item: Item): { norm: Map<string, Decimal>; diagnostics: Diagnostic[] } {
+  const diagnostics: Diagnostic[] = [];
+  const positive = new Map<string, Decimal>();
+  const byUnits = hasUnitClaims(item);
+  const source = (byUnits ? item.unitClaims : item.weights) ?? {};
+  let droppedWeights = false;
+
+  for (const payerId of item.payers) {
+    if (positive.has(payerId)) continue;
+
+    const weight = source[payerId] ?? (byUnits ? 0 : 1);
+    if (!Number.isFinite(weight) || weight <= 0) {
+      droppedWeights = true;
+      continue;
+    }
+    positive.set(payerId, new Decimal(weight));
+  }
+
+  if (droppedWeights) {
+    diagnostics.push(diagnostic('ignored-weights', byUnits
+      ? `Some payers have not claimed any units of "${item.name}"; they were ignored`
+      : `Some payer weights were non-positive; they were ignored for "${item.name}"`, { itemId: item.id }));
+  }
+
+  for (const weightedId of Object.keys(source)) {
+    if (!item.payers.includes(weightedId)) {
+      diagnostics.push(diagnostic(
+        'weight-without-payer',
+        `${byUnits ? 'Units claimed' : 'Weight'} for "${weightedId}" on item "${item.name}" is ignored because they are not a payer`,
+        { itemId: item.id, personId: weightedId }
+      ));
+    }
+  }
+
+  const totalWeight = Array.from(positive.values())
+    .reduce((sum, weight) => sum.plus(weight), new Decimal(0));
+
+  const norm = new Map<string, Decimal>();
+  for (const [payerId, weight] of positive) {
+    norm.set(payerId, weight.dividedBy(totalWeight));
+  }
+
+  return { norm, diagnostics };
+}
+
+// Resolves a charge to a currency amount. Percentage charges (usually tips) are
+// figured on the pre-tax subtotal or on subtotal + tax, then rounded to the
+// currency's minor unit.
+export function resolveChargeAmount(
+  charge: Charge,
+  subtotal: number,
+  tax: number,
+  currency: string,
+  method: RoundingMethod = 'half-up'
+): number {
+  if (!charge.percent) {
+    return charge.amount;
+  }
+  const base = new Decimal(subtotal).plus(charge.percent.basis === 'post-tax' ? tax : 0);
+  return percentOf(base, charge.percent.rate, currency, method);
+}
+
+// Rate (as a percent) for an item: its own rate, then its category's, then
+// the draft default. Exempt items are always 0.
+export function resolveTaxRate(item: Item, draft: ReceiptDraft): number {
+  if (item.taxExempt) {
+    return 0;
+  }
+  if (item.taxRate !== undefined) {
+    return item.taxRate;
+  }
+  const categoryRate = categoryTaxRate(item, draft);
+  return categoryRate ?? draft.defaultTaxRate ?? 0;
+}
+
+// Whether an item is left out of tax. In single-total mode that is only items
+// marked exempt or in a category whose rate is set to 0.
+export function isTaxExempt(item: Item, draft: ReceiptDraft): boolean {
+  if ((draft.taxMode ?? 'order') === 'rates') {
+    return resolveTaxRate(item, draft) === 0;
+  }
+  return item.taxExempt === true || categoryTaxRate(item, draft) === 0;
+}
+
+function categoryTaxRate(item: Item, draft: ReceiptDraft): number | undefined {
+  if (!item.category || !draft.categoryTaxRates) {
+    return undefined;
+  }
+  const category = item.category.toLowerCase();
+  const match = Object.keys(draft.categoryTaxRates).find(key => key.toLowerCase() === category);
+  return match !== undefined ? draft.categoryTaxRates[match] : undefined;
+}
+
+function percentOf(base: Decimal, percent: number, currency: string, method: RoundingMethod): number {
+  return roundMoney(base.times(percent).dividedBy(100).toNumber(), currency, ROUNDING_MODES[method]);
+}
+
+// Resolves each discount to the positive amount it takes off. Item-level
+// percentages apply to the item's price; order-level ones to the subtotal left
+// after item discounts. Discounts attached to a missing item are left out.
+export function resolveDiscountAmounts(draft: ReceiptDraft): Map<string, number> {
+  const amounts = new Map<string, number>();
+  const discounts = draft.discounts ?? [];
+  const { method } = roundingPolicy(draft);
+  let remaining = draft.items.reduce((sum, item) => sum.plus(item.price), new Decimal(0));
+
+  for (const discount of discounts) {
+    if (!discount.itemId) continue;
+    const item = draft.items.find(i => i.id === discount.itemId);
+    if (!item) continue;
+
+    const amount = discount.percent !== undefined
+      ? percentOf(new Decimal(item.price), discount.percent, draft.currency, method)
+      : discount.amount;
+    amounts.set(discount.id, amount);
+    remaining = remaining.minus(amount);
+  }
+
+  for (const discount of discounts) {
+    if (discount.itemId) continue;
+    amounts.set(discount.id, discount.percent !== undefined
+      ? percentOf(remaining, discount.percent, draft.currency, method)
+      : discount.amount);
+  }
+
+  return amounts;
+}
+
+// Penny reconciliation: works out the minor-unit nudges that make the rounded
+// amounts add up to `target`, handed out according to the residual strategy.
+// `entries` are expected in person order.
+function reconcileResidual(
+  entries: Array<{ personId: string; exact: Decimal; rounded: number }>,
+  target: number,
+  currency: string,
+  policy: RoundingPolicy
+): Array<{ personId: string; delta: number }> {
+  const residualApplied: Array<{ personId: string; delta: number }> = [];
+  const roundedSum = entries.reduce((sum, entry) => sum.plus(entry.rounded), new Decimal(0));
+  const delta = new Decimal(target).minus(roundedSum);
+
+  if (delta.isZero() || entries.length === 0) {
+    return residualApplied;
+  }
+
+  // People with nothing on the receipt are never handed pennies
+  const billed = entries.filter(entry => !entry.exact.isZero());
+  const candidates = billed.length > 0 ? billed : entries;
+
+  // The chosen person takes the whole residual in one adjustment
+  if (policy.residual === 'payer') {
+    const absorber = entries.find(entry => entry.personId === policy.absorberId) ?? candidates[0];
+    residualApplied.push({ personId: absorber.personId, delta: delta.toNumber() });
+    return residualApplied;
+  }
+
+  // Step by the currency's minor unit (0.01 for USD, 1 for JPY, 0.001 for KWD)
+  const step = new Decimal(minorUnit(currency));
+  const deltaDirection = delta.greaterThan(0) ? step : step.negated();
+  const steps = delta.dividedBy(step).abs().round().toNumber();
+
+  if (policy.residual === 'rotate') {
+    // One unit each in person order, wrapping around if there are more units than people
+    for (let i = 0; i < steps; i++) {
+      const entry = candidates[i % candidates.length];
+      const existing = residualApplied.find(adjustment => adjustment.personId === entry.personId);
+      if (existing) {
+        existing.delta = new Decimal(existing.delta).plus(deltaDirection).toNumber();
+      } else {
+        residualApplied.push({ personId: entry.personId, delta: deltaDirection.toNumber() });
+      }
+    }
+    return residualApplied;
+  }
+
+  // Sort by fractional remainder (descending), then by personId for stability
+  const sortedEntries = [...entries].sort((a, b) => {
+    const aRemainder = a.exact.minus(a.rounded).abs();
+    const bRemainder = b.exact.minus(b.rounded).abs();
+
+    const remainderDiff = bRemainder.minus(aRemainder).toNumber();
+    if (remainderDiff !== 0) return remainderDiff > 0 ? 1 : -1;
+
+    return a.personId.localeCompare(b.personId);
+  });
+
+  for (const entry of sortedEntries.slice(0, steps)) {
+    residualApplied.push({
+      personId: entry.personId,
+      delta: deltaDirection.toNumber()
+    });
+  }
+
+  return residualApplied;
+}
+
+// A person's itemized statement. Their tax is spread over their items, and a
+// final rounding line covers whatever rounding each line separately leaves over.
+function allocationLines(
+  personData: PersonTotals,
+  total: number,
+  draft: ReceiptDraft,
+  receiptCharges: CalculationResult['receiptCharges'],
+  discountAmounts: Map<string, number>,
+  money: (n: number) => number
+): AllocationLine[] {
+  const lines: AllocationLine[] = [];
+  const share = (part: Decimal, whole: number) => whole !== 0 ? part.dividedBy(whole).toNumber() : 0;
+  const taxWeightTotal = Array.from(personData.items.values())
+    .reduce((sum, entry) => sum.plus(entry.taxWeight), new Decimal(0));
+
+  for (const [itemId, entry] of personData.items) {
+    const tax = taxWeightTotal.isZero()
+      ? new Decimal(0)
+      : personData.taxShare.times(entry.taxWeight).dividedBy(taxWeightTotal);
+    lines.push({
+      kind: 'item',
+      itemId,
+      name: entry.name,
+      fraction: entry.fraction.toNumber(),
+      amount: money(entry.amount.toNumber()),
+      discount: money(entry.discount.toNumber()),
+      tax: money(tax.toNumber())
+    });
+  }
+
+  for (const [discountId, amount] of personData.orderDiscounts) {
+    const discount = draft.discounts?.find(d => d.id === discountId);
+    lines.push({
+      kind: 'discount',
+      discountId,
+      name: discount?.name ?? discountId,
+      fraction: share(amount, discountAmounts.get(discountId) ?? 0),
+      amount: money(amount.toNumber())
+    });
+  }
+
+  for (const [chargeId, amount] of personData.charges) {
+    if (amount.isZero()) continue;
+    const charge = receiptCharges.find(c => c.chargeId === chargeId);
+    lines.push({
+      kind: 'charge',
+      chargeId,
+      name: charge?.name ?? chargeId,
+      fraction: share(amount, charge?.amount ?? 0),
+      amount: money(amount.toNumber())
+    });
+  }
+
+  // Tax-inclusive prices already hold the tax, so it isn't added again
+  const linesTotal = lines.reduce((sum, line) => {
+    switch (line.kind) {
+      case 'item':
+        return sum.plus(line.amount).minus(line.discount).plus(draft.pricesIncludeTax ? 0 : line.tax);
+      case 'discount':
+        return sum.minus(line.amount);
+      default:
+        return sum.plus(line.amount);
+    }
+  }, new Decimal(0));
+  const rounding = money(new Decimal(total).minus(linesTotal).toNumber());
+  if (rounding !== 0) {
+    lines.push({ kind: 'rounding', amount: rounding });
+  }
+
+  return lines;
 }
 
 export function compute(draft: ReceiptDraft): CalculationResult {
-  const warnings: string[] = [];
+  const diagnostics: Diagnostic[] = [];
+  // Whoever paid at the register absorbs leftover pennies unless someone else is chosen
+  const policy = roundingPolicy(draft);
+  policy.absorberId ??= draft.payments?.[0]?.personId;
+  const roundingMode = ROUNDING_MODES[policy.method];
+  const money = (n: number) => roundMoney(n, draft.currency, roundingMode);
   
   // Initialize per-person tracking
-  const personMap = new Map<string, {
-    subtotal: Decimal;
-    taxShare: Decimal;
-    total: Decimal;
-  }>();
+  const personMap = new Map<string, PersonTotals>();
 
   // Initialize all people with zero values
   for (const person of draft.people) {
     personMap.set(person.id, {
       subtotal: new Decimal(0),
+      discount: new Decimal(0),
+      taxBase: new Decimal(0),
+      itemTax: new Decimal(0),
+      ratedBase: new Decimal(0),
       taxShare: new Decimal(0),
-      total: new Decimal(0)
+      charges: new Map(),
+      total: new Decimal(0),
+      items: new Map(),
+      orderDiscounts: new Map()
     });
   }
 
+  const taxMode = draft.taxMode ?? 'order';
+  const discounts = draft.discounts ?? [];
+  const discountAmounts = resolveDiscountAmounts(draft);
+
+  // `taxableShare` is the part of the discount that came off taxable items
+  const applyDiscount = (personId: string, discount: Discount, share: Decimal, taxableShare: Decimal) => {
+    const personData = personMap.get(personId);
+    if (!personData) return;
+    personData.discount = personData.discount.plus(share);
+    if (discount.taxBasis === 'post-discount') {
+      personData.taxBase = personData.taxBase.minus(taxableShare);
+    }
+  };
+
+  for (const discount of discounts) {
+    if (discount.itemId && !discountAmounts.has(discount.id)) {
+      diagnostics.push(diagnostic(
+        'orphaned-discount',
+        `Discount "${discount.name}" is attached to an item that no longer exists`,
+        { discountId: discount.id }
+      ));
+    }
+  }
+
   // Calculate receipt subtotal and per-person subtotals
   let receiptSubtotal = new Decimal(0);
 
@@ -35,109 +380,408 @@ export function compute(draft: ReceiptDraft): CalculationResult {
     receiptSubtotal = receiptSubtotal.plus(itemPrice);
 
     if (item.payers.length === 0) {
-      warnings.push(`Item "${item.name}" has no payers`);
+      diagnostics.push(diagnostic('no-payers', `Item "${item.name}" has no payers`, { itemId: item.id }));
       continue;
     }
 
-    // Equal split among all payers (no weights)
-    const sharePerPayer = itemPrice.dividedBy(item.payers.length);
+    const { norm, diagnostics: shareDiagnostics } = normalizeShares(item);
+    diagnostics.push(...shareDiagnostics);
 
-    for (const payerId of item.payers) {
+    if (norm.size === 0) {
+      diagnostics.push(diagnostic('no-valid-payers', `Item "${item.name}" has no valid payers`, { itemId: item.id }));
+      continue;
+    }
+
+    const itemDiscounts = discounts.filter(discount => discount.itemId === item.id);
+    const exempt = isTaxExempt(item, draft);
+    // With tax-inclusive prices, the tax inside an amount is amount * r / (1 + r)
+    const rate = new Decimal(resolveTaxRate(item, draft)).dividedBy(100);
+    const taxFactor = draft.pricesIncludeTax ? rate.dividedBy(rate.plus(1)) : rate;
+
+    // Weighted split: each payer takes price * (weight / total weight), and
+    // item-level discounts follow the same shares
+    for (const [payerId, fraction] of norm) {
       const personData = personMap.get(payerId);
       if (personData) {
-        personData.subtotal = personData.subtotal.plus(sharePerPayer);
+        const share = itemPrice.times(fraction);
+        const taxableBefore = personData.taxBase;
+        const discountBefore = personData.discount;
+        personData.subtotal = personData.subtotal.plus(share);
+        if (!exempt) {
+          personData.taxBase = personData.taxBase.plus(share);
+        }
+        for (const discount of itemDiscounts) {
+          const discountShare = new Decimal(discountAmounts.get(discount.id) ?? 0).times(fraction);
+          applyDiscount(payerId, discount, discountShare, exempt ? new Decimal(0) : discountShare);
+        }
+        const taxable = personData.taxBase.minus(taxableBefore);
+        if (taxMode === 'rates' && !exempt) {
+          personData.itemTax = personData.itemTax.plus(taxable.times(taxFactor));
+          personData.ratedBase = personData.ratedBase.plus(taxable);
+        }
+        personData.items.set(item.id, {
+          name: item.name,
+          fraction,
+          amount: share,
+          discount: personData.discount.minus(discountBefore),
+          taxWeight: taxMode === 'rates' ? taxable.times(taxFactor) : taxable
+        });
       } else {
-        warnings.push(`Unknown payer "${payerId}" for item "${item.name}"`);
+        diagnostics.push(diagnostic(
+          'unknown-payer',
+          `Unknown payer "${payerId}" for item "${item.name}"`,
+          { itemId: item.id, personId: payerId }
+        ));
+      }
+    }
+  }
+
+  // Allocate order-level discounts, proportionally to what each person has
+  // left after item discounts or equally among the chosen people
+  const netSubtotals = new Map(Array.from(personMap.entries())
+    .map(([personId, personData]) => [personId, personData.subtotal.minus(personData.discount)]));
+  const totalNet = Array.from(netSubtotals.values())
+    .reduce((sum, net) => sum.plus(net), new Decimal(0));
+
+  // Only the taxable part of a person's order-level discount lowers their tax base
+  const taxableFractions = new Map(Array.from(personMap.entries())
+    .map(([personId, personData]) => {
+      const net = netSubtotals.get(personId)!;
+      return [personId, net.greaterThan(0) ? personData.taxBase.dividedBy(net) : new Decimal(0)];
+    }));
+  const applyOrderDiscount = (personId: string, discount: Discount, share: Decimal) => {
+    applyDiscount(personId, discount, share, share.times(taxableFractions.get(personId) ?? 0));
+    const orderDiscounts = personMap.get(personId)?.orderDiscounts;
+    orderDiscounts?.set(discount.id, (orderDiscounts.get(discount.id) ?? new Decimal(0)).plus(share));
+  };
+
+  for (const discount of discounts) {
+    if (discount.itemId) continue;
+    const amount = new Decimal(discountAmounts.get(discount.id) ?? 0);
+
+    if (discount.allocation === 'assigned') {
+      const recipients = [...new Set(discount.assignedTo ?? [])].filter(personId => {
+        if (personMap.has(personId)) return true;
+        diagnostics.push(diagnostic(
+          'unknown-person',
+          `Unknown person "${personId}" assigned to discount "${discount.name}"`,
+          { discountId: discount.id, personId }
+        ));
+        return false;
+      });
+      if (recipients.length === 0) {
+        diagnostics.push(diagnostic(
+          'unassigned-discount',
+          `Discount "${discount.name}" has nobody to allocate to`,
+          { discountId: discount.id }
+        ));
+        continue;
+      }
+      for (const personId of recipients) {
+        applyOrderDiscount(personId, discount, amount.dividedBy(recipients.length));
+      }
+    } else if (totalNet.greaterThan(0)) {
+      for (const [personId, net] of netSubtotals) {
+        applyOrderDiscount(personId, discount, amount.times(net).dividedBy(totalNet));
+      }
+    } else if (!amount.isZero()) {
+      diagnostics.push(diagnostic(
+        'nothing-to-allocate',
+        `Cannot allocate discount "${discount.name}" when no items have payers`,
+        { discountId: discount.id }
+      ));
+    }
+  }
+
+  let taxTotal: Decimal;
+  let taxReconciliation: CalculationResult['taxReconciliation'];
+
+  if (taxMode === 'rates') {
+    // Derive tax from each person's rated items, scaled down by any
+    // order-level discounts that tax was figured after
+    for (const personData of personMap.values()) {
+      if (personData.ratedBase.greaterThan(0)) {
+        personData.taxShare = personData.itemTax.times(personData.taxBase).dividedBy(personData.ratedBase);
       }
     }
+    const computedTax = Array.from(personMap.values())
+      .reduce((sum, person) => sum.plus(person.taxShare), new Decimal(0));
+    taxTotal = new Decimal(money(computedTax.toNumber()));
+
+    // Reconcile against the printed tax total when one was entered
+    if (draft.taxTotal > 0) {
+      const difference = money(taxTotal.minus(draft.taxTotal).toNumber());
+      taxReconciliation = {
+        computed: taxTotal.toNumber(),
+        printed: draft.taxTotal,
+        difference
+      };
+      if (difference !== 0) {
+        diagnostics.push(diagnostic(
+          'tax-mismatch',
+          `Computed tax ${formatMoney(taxTotal.toNumber(), draft.currency)} does not match the printed tax ${formatMoney(draft.taxTotal, draft.currency)}`
+        ));
+      }
+    }
+  } else {
+    // Calculate tax allocation (proportional to each person's taxable amount)
+    taxTotal = new Decimal(draft.taxTotal);
+    const totalTaxBase = Array.from(personMap.values())
+      .reduce((sum, person) => sum.plus(person.taxBase), new Decimal(0));
+
+    if (!totalTaxBase.greaterThan(0) && taxTotal.greaterThan(0)) {
+      diagnostics.push(diagnostic('nothing-to-allocate', 'Cannot allocate tax when no taxable items have payers'));
+    } else if (totalTaxBase.greaterThan(0)) {
+      for (const [, personData] of personMap) {
+        personData.taxShare = taxTotal.times(personData.taxBase).dividedBy(totalTaxBase);
+      }
+    }
+  }
+
+  // Tax-inclusive prices already contain the tax, so back each person's
+  // portion out of their subtotal rather than adding it on top
+  if (draft.pricesIncludeTax) {
+    for (const personData of personMap.values()) {
+      personData.subtotal = personData.subtotal.minus(personData.taxShare);
+    }
+    receiptSubtotal = receiptSubtotal.minus(taxTotal);
   }
 
-  // Calculate tax allocation (proportional to subtotals)
-  const taxTotal = new Decimal(draft.taxTotal);
+  // Allocate order-level charges (tips, service and delivery fees)
   const totalSubtotal = Array.from(personMap.values())
     .reduce((sum, person) => sum.plus(person.subtotal), new Decimal(0));
+  const receiptCharges: CalculationResult['receiptCharges'] = [];
+  let chargesTotal = new Decimal(0);
+
+  for (const charge of draft.charges ?? []) {
+    const amount = new Decimal(
+      resolveChargeAmount(charge, receiptSubtotal.toNumber(), taxTotal.toNumber(), draft.currency, policy.method)
+    );
+    receiptCharges.push({ chargeId: charge.id, name: charge.name, amount: amount.toNumber() });
+    chargesTotal = chargesTotal.plus(amount);
 
-  if (totalSubtotal.isZero() && taxTotal.greaterThan(0)) {
-    warnings.push('Cannot allocate tax when no items have payers');
-  } else if (totalSubtotal.greaterThan(0)) {
-    for (const [, personData] of personMap) {
-      personData.taxShare = taxTotal.times(personData.subtotal).dividedBy(totalSubtotal);
+    for (const personData of personMap.values()) {
+      personData.charges.set(charge.id, new Decimal(0));
+    }
+
+    if (charge.allocation === 'proportional') {
+      if (totalSubtotal.isZero()) {
+        if (!amount.isZero()) {
+          diagnostics.push(diagnostic(
+            'nothing-to-allocate',
+            `Cannot allocate "${charge.name}" when no items have payers`,
+            { chargeId: charge.id }
+          ));
+        }
+        continue;
+      }
+      for (const personData of personMap.values()) {
+        personData.charges.set(charge.id, amount.times(personData.subtotal).dividedBy(totalSubtotal));
+      }
+      continue;
+    }
+
+    // Equal split, either across everyone with items or across the assigned people
+    const recipients = charge.allocation === 'assigned'
+      ? [...new Set(charge.assignedTo ?? [])].filter(personId => {
+          if (personMap.has(personId)) return true;
+          diagnostics.push(diagnostic(
+            'unknown-person',
+            `Unknown person "${personId}" assigned to "${charge.name}"`,
+            { chargeId: charge.id, personId }
+          ));
+          return false;
+        })
+      : Array.from(personMap.entries())
+          .filter(([, personData]) => personData.subtotal.greaterThan(0))
+          .map(([personId]) => personId);
+
+    if (recipients.length === 0) {
+      if (!amount.isZero()) {
+        diagnostics.push(diagnostic(
+          'unassigned-charge',
+          `Charge "${charge.name}" has nobody to allocate to`,
+          { chargeId: charge.id }
+        ));
+      }
+      continue;
+    }
+
+    const perRecipient = amount.dividedBy(recipients.length);
+    for (const personId of recipients) {
+      personMap.get(personId)!.charges.set(charge.id, perRecipient);
     }
   }
 
   // Calculate totals (pre-round)
   for (const personData of personMap.values()) {
-    personData.total = personData.subtotal.plus(personData.taxShare);
+    const personCharges = Array.from(personData.charges.values())
+      .reduce((sum, amount) => sum.plus(amount), new Decimal(0));
+    personData.total = personData.subtotal
+      .minus(personData.discount)
+      .plus(personData.taxShare)
+      .plus(personCharges);
   }
 
-  // Round to cents
+  // Round to the currency's minor unit
   const perPersonRounded: PersonBreakdown[] = [];
   let totalRoundedSum = new Decimal(0);
 
   for (const [personId, personData] of personMap) {
-    const roundedSubtotal = round2HalfUp(personData.subtotal.toNumber());
-    const roundedTaxShare = round2HalfUp(personData.taxShare.toNumber());
-    const roundedTotal = round2HalfUp(personData.total.toNumber());
+    const roundedSubtotal = money(personData.subtotal.toNumber());
+    const roundedTaxShare = money(personData.taxShare.toNumber());
+    const roundedTotal = money(personData.total.toNumber());
 
     totalRoundedSum = totalRoundedSum.plus(roundedTotal);
 
+    const charges: Record<string, number> = {};
+    const fractionalCharges: Record<string, number> = {};
+    for (const [chargeId, amount] of personData.charges) {
+      charges[chargeId] = money(amount.toNumber());
+      fractionalCharges[chargeId] = amount.toNumber();
+    }
+
     perPersonRounded.push({
       personId,
       subtotal: roundedSubtotal,
+      discount: money(personData.discount.toNumber()),
       taxShare: roundedTaxShare,
+      charges,
       total: roundedTotal,
+      lines: [],
       _fractional: {
         subtotal: personData.subtotal.toNumber(),
+        discount: personData.discount.toNumber(),
         taxShare: personData.taxShare.toNumber(),
+        charges: fractionalCharges,
         total: personData.total.toNumber()
       }
     });
   }
 
   // Penny reconciliation
-  const receiptGrand = receiptSubtotal.plus(taxTotal);
-  const grandRounded = round2HalfUp(receiptGrand.toNumber());
-  const delta = new Decimal(grandRounded).minus(totalRoundedSum);
+  const receiptDiscount = Array.from(discountAmounts.values())
+    .reduce((sum, amount) => sum.plus(amount), new Decimal(0));
+  const receiptGrand = receiptSubtotal.minus(receiptDiscount).plus(taxTotal).plus(chargesTotal);
+  const grandRounded = money(receiptGrand.toNumber());
+  // With no payment recorded, the first person with anything to pay absorbs
+  policy.absorberId ??= perPersonRounded.find(b => !personMap.get(b.personId)!.total.isZero())?.personId;
 
-  const residualApplied: Array<{ personId: string; delta: number }> = [];
+  const residualApplied = reconcileResidual(
+    perPersonRounded.map(breakdown => ({
+      personId: breakdown.personId,
+      exact: personMap.get(breakdown.personId)!.total,
+      rounded: breakdown.total
+    })),
+    grandRounded,
+    draft.currency,
+    policy
+  );
+  for (const adjustment of residualApplied) {
+    const breakdown = perPersonRounded.find(b => b.personId === adjustment.personId)!;
+    breakdown.total = money(breakdown.total + adjustment.delta);
+  }
+  for (const breakdown of perPersonRounded) {
+    breakdown.lines = allocationLines(
+      personMap.get(breakdown.personId)!,
+      breakdown.total,
+      draft,
+      receiptCharges,
+      discountAmounts,
+      money
+    );
+  }
 
-  if (!delta.isZero()) {
-    // Sort by fractional remainder (descending), then by personId for stability
-    const sortedBreakdowns = [...perPersonRounded].sort((a, b) => {
-      const aRemainder = new Decimal(a._fractional.total).minus(a.total).abs();
-      const bRemainder = new Decimal(b._fractional.total).minus(b.total).abs();
-      
-      const remainderDiff = bRemainder.minus(aRemainder).toNumber();
-      if (remainderDiff !== 0) return remainderDiff > 0 ? 1 : -1;
-      
-      return a.personId.localeCompare(b.personId);
+  // Convert to the settlement currency at full precision, then round and
+  // reconcile in that currency's minor units
+  let settlement: CalculationResult['settlement'];
+  if (draft.settlement && draft.settlement.rate > 0) {
+    const { currency, rate } = draft.settlement;
+    const settlementGrand = roundMoney(receiptGrand.times(rate).toNumber(), currency, roundingMode);
+    const entries = perPersonRounded.map(breakdown => {
+      const exact = personMap.get(breakdown.personId)!.total.times(rate);
+      return { personId: breakdown.personId, exact, rounded: roundMoney(exact.toNumber(), currency, roundingMode) };
     });
+    const settlementResidual = reconcileResidual(entries, settlementGrand, currency, policy);
 
-    let remainingDelta = delta.toNumber();
-    const deltaDirection = remainingDelta > 0 ? 0.01 : -0.01;
+    for (const entry of entries) {
+      const adjustment = settlementResidual.find(a => a.personId === entry.personId)?.delta ?? 0;
+      perPersonRounded.find(b => b.personId === entry.personId)!.settlementTotal =
+        roundMoney(entry.rounded + adjustment, currency);
+    }
 
-    for (const breakdown of sortedBreakdowns) {
-      if (Math.abs(remainingDelta) < 0.005) break;
+    settlement = {
+      ...draft.settlement,
+      receiptGrand: settlementGrand,
+      residualApplied: settlementResidual
+    };
+  } else if (draft.settlement) {
+    diagnostics.push(diagnostic('invalid-exchange-rate', `Exchange rate to ${draft.settlement.currency} must be positive`));
+  }
 
-      breakdown.total = round2HalfUp(breakdown.total + deltaDirection);
-      residualApplied.push({
-        personId: breakdown.personId,
-        delta: deltaDirection
-      });
-      
-      remainingDelta -= deltaDirection;
+  // Net what each person paid against their share and work out who pays whom,
+  // in the settlement currency when there is one
+  let settleUp: CalculationResult['settleUp'];
+  const payments = (draft.payments ?? []).filter(payment => {
+    if (personMap.has(payment.personId)) return true;
+    diagnostics.push(diagnostic(
+      'unknown-person',
+      `Unknown person "${payment.personId}" recorded as a payer`,
+      { personId: payment.personId }
+    ));
+    return false;
+  });
+  if (payments.length > 0) {
+    const settleCurrency = settlement?.currency ?? draft.currency;
+    const paidTotal = payments.reduce((sum, payment) => sum.plus(payment.amount), new Decimal(0));
+    if (!paidTotal.equals(grandRounded)) {
+      diagnostics.push(diagnostic(
+        'payment-mismatch',
+        `Payments add up to ${formatMoney(paidTotal.toNumber(), draft.currency)} but the receipt total is ${formatMoney(grandRounded, draft.currency)}`
+      ));
     }
+
+    const paid = payments.map(payment => ({
+      personId: payment.personId,
+      amount: settlement
+        ? roundMoney(new Decimal(payment.amount).times(settlement.rate).toNumber(), settleCurrency, roundingMode)
+        : payment.amount
+    }));
+    const owed = perPersonRounded.map(breakdown => ({
+      personId: breakdown.personId,
+      amount: settlement ? breakdown.settlementTotal ?? 0 : breakdown.total
+    }));
+    const balances = computeBalances(owed, paid);
+
+    settleUp = {
+      currency: settleCurrency,
+      paidTotal: paidTotal.toNumber(),
+      balances,
+      transfers: minimizeTransfers(balances, settleCurrency)
+    };
+  }
+
+  // Hold the result back from being final until it matches the paper receipt
+  const totalsReconciliation = reconcileTotals(draft, grandRounded);
+  if (totalsReconciliation) {
+    diagnostics.push(...reconciliationDiagnostics(draft, totalsReconciliation));
   }
 
   return {
     perPerson: perPersonRounded,
     receiptSubtotal: receiptSubtotal.toNumber(),
+    receiptDiscount: receiptDiscount.toNumber(),
     receiptTax: taxTotal.toNumber(),
+    taxReconciliation,
+    totalsReconciliation,
+    receiptCharges,
     receiptGrand: receiptGrand.toNumber(),
+    settlement,
+    settleUp,
     rounding: {
-      method: "half-up",
+      ...policy,
       residualApplied
     },
-    warnings
+    diagnostics
   };
 }
\ No newline at end of file
@@ -0,0 +1,150 @@
+import type { Charge, ChargeAllocation, ChargeKind, Person, RoundingMethod } from '../types';
+import { resolveChargeAmount } from '../calculator';
+import { formatMoney, minorUnit } from '../currency';
+import PayerSelector from './PayerSelector';
+
+interface ChargesEditorProps {
+  charges: Charge[];
+  people: Person[];
+  subtotal: number;
+  tax: number;
+  currency: string;
+  roundingMethod: RoundingMethod;
+  highlightedId?: string; // charge a clicked diagnostic points at
+  onAddCharge: (charge: Charge) => void;
+  onUpdateCharge: (charge: Charge) => void;
+  onRemoveCharge: (chargeId: string) => void;
+}
+
+const KIND_LABELS: Record<ChargeKind, string> = {
+  tip: 'Tip',
+  service: 'Service charge',
+  delivery: 'Delivery fee',
+  other: 'Other fee'
+};
+
+const ALLOCATION_LABELS: Record<ChargeAllocation, string> = {
+  proportional: 'Proportional to subtotal',
+  equal: 'Equal per participant',
+  assigned: 'Specific people'
+};
+
+export default function ChargesEditor({
+  charges,
+  people,
+  subtotal,
+  tax,
+  currency,
+  roundingMethod,
+  highlightedId,
+  onAddCharge,
+  onUpdateCharge,
+  onRemoveCharge
+}: ChargesEditorProps) {
+  const handleAddCharge = (kind: ChargeKind) => {
+    onAddCharge({
+      id: `charge_${Date.now()}`,
+      name: KIND_LABELS[kind],
+      kind,
+      amount: 0,
+      // Tips are usually figured as a percentage, fees as a flat amount
+      percent: kind === 'tip' ? { rate: 18, basis: 'pre-tax' } : undefined,
+      allocation: kind === 'delivery' ? 'equal' : 'proportional'
+    });
+  };
+
+  return (
+    <div className="charges-editor">
+      {charges.map((charge) => (
+        <div
+          key={charge.id}
+          className={`charge-row ${charge.id === highlightedId ? 'diagnostic-highlight' : ''}`}
+        >
+          <div className="charge-fields">
+            <input
+              type="text"
+              value={charge.name}
+              onChange={(e) => onUpdateCharge({ ...charge, name: e.target.value })}
+            />
+            <select
+              value={charge.percent ? 'percent' : 'amount'}
+              onChange={(e) => onUpdateCharge({
+                ...charge,
+                percent: e.target.value === 'percent' ? { rate: 0, basis: 'pre-tax' } : undefined
+              })}
+            >
+              <option value="amount">Amount</option>
+              <option value="percent">Percent</option>
+            </select>
+            {charge.percent ? (
+              <>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={charge.percent.rate}
+                  onChange={(e) => onUpdateCharge({
+                    ...charge,
+                    percent: { ...charge.percent!, rate: parseFloat(e.target.value) || 0 }
+                  })}
+                />
+                <select
+                  value={charge.percent.basis}
+                  onChange={(e) => onUpdateCharge({
+                    ...charge,
+                    percent: { ...charge.percent!, basis: e.target.value as 'pre-tax' | 'post-tax' }
+                  })}
+                >
+                  <option value="pre-tax">% of pre-tax</option>
+                  <option value="post-tax">% of post-tax</option>
+                </select>
+              </>
+            ) : (
+              <input
+                type="number"
+                min="0"
+                step={minorUnit(currency)}
+                value={charge.amount}
+                onChange={(e) => onUpdateCharge({ ...charge, amount: parseFloat(e.target.value) || 0 })}
+              />
+            )}
+            <span className="charge-amount">
+              {formatMoney(resolveChargeAmount(charge, subtotal, tax, currency, roundingMethod), currency)}
+            </span>
+            <button onClick={() => onRemoveCharge(charge.id)}>Remove</button>
+          </div>
+
+          <div className="charge-allocation">
+            <select
+              value={charge.allocation}
+              onChange={(e) => onUpdateCharge({
+                ...charge,
+                allocation: e.target.value as ChargeAllocation
+              })}
+            >
+              {Object.entries(ALLOCATION_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            {charge.allocation === 'assigned' && (
+              <PayerSelector
+                people={people}
+                selectedPayers={charge.assignedTo ?? []}
+                showWeights={false}
+                onChange={(assignedTo) => onUpdateCharge({ ...charge, assignedTo })}
+              />
+            )}
+          </div>
+        </div>
+      ))}
+
+      <div className="charge-add-buttons">
+        {(Object.keys(KIND_LABELS) as ChargeKind[]).map((kind) => (
+          <button key={kind} type="button" onClick={() => handleAddCharge(kind)}>
+            + {KIND_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
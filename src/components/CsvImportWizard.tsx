@@ -0,0 +1,249 @@
+import { useEffect, useState } from 'react';
+import type { CsvColumnMapping, CsvField, ImportPreset, Person, ReceiptDraft } from '../types';
+import { guessColumnMapping, parseCsvToDraft } from '../parsing';
+import { CsvImportError, parseCsv } from '../csv';
+import type { CsvRowError } from '../csv';
+import { formatMoney } from '../currency';
+import { deleteImportPreset, listImportPresets, saveImportPreset } from '../storage';
+
+interface CsvImportWizardProps {
+  csvText: string;
+  fileName: string;
+  people: Person[];
+  currency: string;
+  onImport: (draft: ReceiptDraft) => void;
+  onCancel: () => void;
+}
+
+const FIELD_LABELS: Record<CsvField, string> = {
+  name: 'Item name',
+  total: 'Line total',
+  price: 'Price',
+  quantity: 'Quantity',
+  unit_price: 'Unit price',
+  quantity_x_unit: 'Qty × unit (one column)',
+  category: 'Category',
+  payers: 'Payers'
+};
+
+const PREVIEW_ROWS = 5;
+
+// A preset applies when every column it maps exists in the file
+function presetFits(preset: ImportPreset, headers: string[]): boolean {
+  const normalized = headers.map(h => h.trim().toLowerCase());
+  return Object.values(preset.mapping.columns)
+    .every(header => header !== undefined && normalized.includes(header.trim().toLowerCase()));
+}
+
+export default function CsvImportWizard({
+  csvText,
+  fileName,
+  people,
+  currency,
+  onImport,
+  onCancel
+}: CsvImportWizardProps) {
+  const [header, ...rows] = parseCsv(csvText);
+  const headers = header?.values ?? [];
+
+  const [mapping, setMapping] = useState<CsvColumnMapping>(() => guessColumnMapping(headers));
+  const [presets, setPresets] = useState<ImportPreset[]>([]);
+  const [presetId, setPresetId] = useState('');
+  const [presetName, setPresetName] = useState('');
+  const [presetError, setPresetError] = useState<string | null>(null);
+
+  // Pick the first saved preset that matches this file's columns
+  useEffect(() => {
+    const [fileHeader] = parseCsv(csvText);
+    const fileHeaders = fileHeader?.values ?? [];
+    listImportPresets()
+      .then(saved => {
+        setPresets(saved);
+        setPresetError(null);
+        const match = saved.find(preset => presetFits(preset, fileHeaders));
+        if (match) {
+          setPresetId(match.id);
+          setMapping(match.mapping);
+        }
+      })
+      .catch(error => setPresetError(
+        `Could not load saved mappings: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+  }, [csvText]);
+
+  // Dry-run the import with the current mapping to preview items and row errors
+  let preview: ReceiptDraft | undefined;
+  let rowErrors: CsvRowError[] = [];
+  let mappingError: string | undefined;
+  try {
+    preview = parseCsvToDraft(csvText, people, currency, mapping);
+  } catch (error) {
+    if (error instanceof CsvImportError && error.partialDraft) {
+      preview = error.partialDraft;
+      rowErrors = error.rowErrors;
+    } else {
+      mappingError = error instanceof Error ? error.message : 'Could not read the file';
+    }
+  }
+
+  const setColumn = (field: CsvField, headerName: string) => {
+    const columns = { ...mapping.columns };
+    if (headerName) {
+      columns[field] = headerName;
+    } else {
+      delete columns[field];
+    }
+    setMapping({ ...mapping, columns });
+    setPresetId('');
+  };
+
+  const applyPreset = (id: string) => {
+    setPresetId(id);
+    const preset = presets.find(p => p.id === id);
+    setMapping(preset ? preset.mapping : guessColumnMapping(headers));
+  };
+
+  const handleSavePreset = async () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const existing = presets.find(p => p.name.toLowerCase() === name.toLowerCase());
+    const preset: ImportPreset = {
+      id: existing?.id ?? `preset_${Date.now()}`,
+      name,
+      mapping,
+      savedAt: new Date().toISOString()
+    };
+    try {
+      await saveImportPreset(preset);
+      setPresets(await listImportPresets());
+      setPresetId(preset.id);
+      setPresetName('');
+    } catch (error) {
+      alert(`Could not save preset: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleDeletePreset = async () => {
+    const preset = presets.find(p => p.id === presetId);
+    if (!preset || !confirm(`Delete preset "${preset.name}"?`)) return;
+    try {
+      await deleteImportPreset(preset.id);
+      setPresets(await listImportPresets());
+      setPresetId('');
+    } catch (error) {
+      alert(`Could not delete preset: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleImport = () => {
+    if (!preview) return;
+    if (rowErrors.length > 0 && !confirm(
+      `${rowErrors.length} row${rowErrors.length === 1 ? '' : 's'} could not be imported. Import the other ${preview.items.length} anyway?`
+    )) {
+      return;
+    }
+    onImport(preview);
+  };
+
+  return (
+    <div className="csv-import-wizard">
+      <h4>Import {fileName}</h4>
+
+      <div className="wizard-presets">
+        <select value={presetId} onChange={(e) => applyPreset(e.target.value)}>
+          <option value="">{presets.length > 0 ? 'Choose a saved mapping…' : 'No saved mappings'}</option>
+          {presets.map(preset => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name}{presetFits(preset, headers) ? '' : ' (columns differ)'}
+            </option>
+          ))}
+        </select>
+        {presetId && <button type="button" onClick={handleDeletePreset}>Delete</button>}
+      </div>
+      {presetError && <p className="wizard-error">{presetError}</p>}
+
+      <div className="wizard-mapping">
+        {(Object.keys(FIELD_LABELS) as CsvField[]).map(field => (
+          <label key={field}>
+            <span>{FIELD_LABELS[field]}{field === 'name' ? ' *' : ''}</span>
+            <select
+              value={mapping.columns[field] ?? ''}
+              onChange={(e) => setColumn(field, e.target.value)}
+            >
+              <option value="">—</option>
+              {headers.map((h, index) => (
+                <option key={index} value={h}>{h || `Column ${index + 1}`}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+        <label className="wizard-cents">
+          <input
+            type="checkbox"
+            checked={mapping.moneyInCents ?? false}
+            onChange={(e) => {
+              setMapping({ ...mapping, moneyInCents: e.target.checked || undefined });
+              setPresetId('');
+            }}
+          />
+          Amounts are in cents
+        </label>
+      </div>
+
+      <div className="wizard-preview">
+        <table>
+          <thead>
+            <tr>{headers.map((h, index) => <th key={index}>{h}</th>)}</tr>
+          </thead>
+          <tbody>
+            {rows.slice(0, PREVIEW_ROWS).map(row => (
+              <tr key={row.line}>
+                {headers.map((_, index) => <td key={index}>{row.values[index]}</td>)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length > PREVIEW_ROWS && <small>…and {rows.length - PREVIEW_ROWS} more rows</small>}
+      </div>
+
+      {mappingError ? (
+        <p className="wizard-error">{mappingError}</p>
+      ) : preview && (
+        <div className="wizard-result">
+          <small>
+            {preview.items.length} item{preview.items.length === 1 ? '' : 's'}, first:{' '}
+            {preview.items.slice(0, 3).map(item =>
+              `${item.quantity && item.quantity !== 1 ? `${item.quantity} × ` : ''}${item.name} ${formatMoney(item.price, currency)}`
+            ).join('; ')}
+          </small>
+          {rowErrors.length > 0 && (
+            <ul className="wizard-row-errors">
+              {rowErrors.map(error => (
+                <li key={`${error.line}-${error.message}`}>Line {error.line}: {error.message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="wizard-save-preset">
+        <input
+          type="text"
+          placeholder="Save mapping as… (e.g. store name)"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+        />
+        <button type="button" onClick={handleSavePreset} disabled={!presetName.trim()}>
+          Save
+        </button>
+      </div>
+
+      <div className="wizard-actions">
+        <button type="button" onClick={handleImport} disabled={!preview || preview.items.length === 0}>
+          Import
+        </button>
+        <button type="button" onClick={onCancel}>Cancel</button>
+      </div>
+    </div>
+  );
+}
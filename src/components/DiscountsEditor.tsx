@@ -0,0 +1,136 @@
+import type { Discount, Person } from '../types';
+import { formatMoney, minorUnit } from '../currency';
+import PayerSelector from './PayerSelector';
+
+interface DiscountFieldsProps {
+  discount: Discount;
+  resolvedAmount: number;
+  currency: string;
+  onUpdate: (discount: Discount) => void;
+  onRemove: (discountId: string) => void;
+}
+
+export function DiscountFields({ discount, resolvedAmount, currency, onUpdate, onRemove }: DiscountFieldsProps) {
+  return (
+    <div className="discount-fields">
+      <input
+        type="text"
+        value={discount.name}
+        onChange={(e) => onUpdate({ ...discount, name: e.target.value })}
+      />
+      <select
+        value={discount.percent !== undefined ? 'percent' : 'amount'}
+        onChange={(e) => onUpdate({
+          ...discount,
+          percent: e.target.value === 'percent' ? 0 : undefined
+        })}
+      >
+        <option value="amount">Amount off</option>
+        <option value="percent">Percent off</option>
+      </select>
+      <input
+        type="number"
+        min="0"
+        step={discount.percent !== undefined ? 1 : minorUnit(currency)}
+        value={discount.percent ?? discount.amount}
+        onChange={(e) => {
+          const value = parseFloat(e.target.value) || 0;
+          onUpdate(discount.percent !== undefined
+            ? { ...discount, percent: value }
+            : { ...discount, amount: value });
+        }}
+      />
+      <select
+        value={discount.taxBasis}
+        title="Whether the receipt's tax was figured before or after this discount"
+        onChange={(e) => onUpdate({
+          ...discount,
+          taxBasis: e.target.value as Discount['taxBasis']
+        })}
+      >
+        <option value="post-discount">Taxed after discount</option>
+        <option value="pre-discount">Taxed before discount</option>
+      </select>
+      <span className="discount-amount">−{formatMoney(resolvedAmount, currency)}</span>
+      <button onClick={() => onRemove(discount.id)}>Remove</button>
+    </div>
+  );
+}
+
+interface DiscountsEditorProps {
+  discounts: Discount[];
+  amounts: Map<string, number>;
+  people: Person[];
+  currency: string;
+  highlightedId?: string; // discount a clicked diagnostic points at
+  onAddDiscount: (discount: Discount) => void;
+  onUpdateDiscount: (discount: Discount) => void;
+  onRemoveDiscount: (discountId: string) => void;
+}
+
+// Order-level discounts; item-level ones are edited under their item row
+export default function DiscountsEditor({
+  discounts,
+  amounts,
+  people,
+  currency,
+  highlightedId,
+  onAddDiscount,
+  onUpdateDiscount,
+  onRemoveDiscount
+}: DiscountsEditorProps) {
+  const handleAddDiscount = () => {
+    onAddDiscount({
+      id: `discount_${Date.now()}`,
+      name: 'Coupon',
+      amount: 0,
+      allocation: 'proportional',
+      taxBasis: 'post-discount'
+    });
+  };
+
+  return (
+    <div className="discounts-editor">
+      {discounts.map((discount) => (
+        <div
+          key={discount.id}
+          className={`discount-row ${discount.id === highlightedId ? 'diagnostic-highlight' : ''}`}
+        >
+          <DiscountFields
+            discount={discount}
+            resolvedAmount={amounts.get(discount.id) ?? 0}
+            currency={currency}
+            onUpdate={onUpdateDiscount}
+            onRemove={onRemoveDiscount}
+          />
+          <div className="discount-allocation">
+            <select
+              value={discount.allocation}
+              onChange={(e) => onUpdateDiscount({
+                ...discount,
+                allocation: e.target.value as Discount['allocation']
+              })}
+            >
+              <option value="proportional">Proportional to subtotal</option>
+              <option value="assigned">Specific people</option>
+            </select>
+            {discount.allocation === 'assigned' && (
+              <PayerSelector
+                people={people}
+                selectedPayers={discount.assignedTo ?? []}
+                showWeights={false}
+                onChange={(assignedTo) => onUpdateDiscount({ ...discount, assignedTo })}
+              />
+            )}
+          </div>
+        </div>
+      ))}
+
+      <div className="discount-add-buttons">
+        <button type="button" onClick={handleAddDiscount}>
+          + Order discount
+        </button>
+      </div>
+    </div>
+  );
+}
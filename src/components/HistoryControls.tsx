@@ -0,0 +1,51 @@
+import { useState } from 'react';
+
+interface HistoryControlsProps {
+  past: string[]; // labels, oldest first
+  future: string[]; // labels, next redo first
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+export default function HistoryControls({ past, future, onUndo, onRedo }: HistoryControlsProps) {
+  const [showHistory, setShowHistory] = useState(false);
+  const lastEdit = past[past.length - 1];
+  const nextRedo = future[0];
+
+  return (
+    <div className="history-controls">
+      <button
+        type="button"
+        onClick={onUndo}
+        disabled={!lastEdit}
+        title={lastEdit ? `Undo: ${lastEdit} (Ctrl+Z)` : 'Nothing to undo'}
+      >
+        ↶ Undo{lastEdit && `: ${lastEdit}`}
+      </button>
+      <button
+        type="button"
+        onClick={onRedo}
+        disabled={!nextRedo}
+        title={nextRedo ? `Redo: ${nextRedo} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+      >
+        ↷ Redo{nextRedo && `: ${nextRedo}`}
+      </button>
+      {(past.length > 0 || future.length > 0) && (
+        <button type="button" className="history-toggle" onClick={() => setShowHistory(!showHistory)}>
+          {showHistory ? 'Hide history' : `History (${past.length})`}
+        </button>
+      )}
+
+      {showHistory && (
+        <ol className="history-list">
+          {[...future].reverse().map((label, index) => (
+            <li key={`future-${index}`} className="history-undone">{label}</li>
+          ))}
+          {[...past].reverse().map((label, index) => (
+            <li key={`past-${index}`} className={index === 0 ? 'history-current' : ''}>{label}</li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
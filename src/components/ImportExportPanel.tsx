@@ -1,14 +1,92 @@
-import { useRef } from 'react';
-import type { ReceiptDraft } from '../types';
-import { parseCsvToDraft, parseJsonToDraft } from '../parsing';
+import { useRef, useState } from 'react';
+import type { PayerAlias, PayerRule, Person, ReceiptDraft } from '../types';
+import { parseJsonToDraft } from '../parsing';
+import { parseCsv } from '../csv';
+import { SchemaError, serializeDraft } from '../schema';
+import { newPersonId } from '../directory';
+import { applyPayerResolutions, automaticResolutions, normalizeAlias, unknownPayers } from '../payerResolution';
+import type { PayerResolution } from '../payerResolution';
+import { listPayerAliases, savePayerAliases } from '../storage';
+import { applyPayerRules } from '../rules';
+import CsvImportWizard from './CsvImportWizard';
+import PayerResolutionDialog from './PayerResolutionDialog';
+import TextImportDialog from './TextImportDialog';
 
 interface ImportExportPanelProps {
   onLoadDraft: (draft: ReceiptDraft) => void;
+  onPeopleCreated: (people: Person[]) => void; // new people made while resolving payers
   draft: ReceiptDraft;
+  directoryPeople: Person[];
+  payerRules: PayerRule[]; // fill in payers the import left empty
 }
 
-export default function ImportExportPanel({ onLoadDraft, draft }: ImportExportPanelProps) {
+type PendingPayers = {
+  draft: ReceiptDraft;
+  names: string[];
+  aliases: PayerAlias[];
+};
+
+export default function ImportExportPanel({
+  onLoadDraft,
+  onPeopleCreated,
+  draft,
+  directoryPeople,
+  payerRules
+}: ImportExportPanelProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingCsv, setPendingCsv] = useState<{ text: string; fileName: string } | null>(null);
+  const [pendingText, setPendingText] = useState<{ text: string; fileName?: string } | null>(null);
+  const [pendingPayers, setPendingPayers] = useState<PendingPayers | null>(null);
+
+  // Everyone an imported payer name could mean
+  const knownPeople = [...draft.people, ...directoryPeople.filter(p => !draft.people.some(d => d.id === p.id))];
+
+  // Payer rules run once everyone on the import is known
+  const finishImport = (imported: ReceiptDraft) => {
+    onLoadDraft(applyPayerRules(imported, payerRules).draft);
+  };
+
+  // Settles payer names that match nobody on the receipt: remembered aliases and
+  // exact directory matches quietly, the rest by asking
+  const loadImported = async (imported: ReceiptDraft) => {
+    const names = unknownPayers(imported);
+    if (names.length === 0) {
+      finishImport(imported);
+      return;
+    }
+
+    const aliases = await listPayerAliases().catch(() => []);
+    const automatic = applyPayerResolutions(imported, automaticResolutions(names, knownPeople, aliases), knownPeople, newPersonId);
+    const remaining = unknownPayers(automatic.draft);
+    if (remaining.length === 0) {
+      finishImport(automatic.draft);
+    } else {
+      setPendingPayers({ draft: automatic.draft, names: remaining, aliases });
+    }
+  };
+
+  const handleResolvePayers = async (resolutions: Record<string, PayerResolution>, remember: string[]) => {
+    if (!pendingPayers) return;
+    const { draft: resolved, created, personIds } = applyPayerResolutions(
+      pendingPayers.draft, resolutions, knownPeople, newPersonId
+    );
+    if (created.length > 0) onPeopleCreated(created);
+
+    const savedAt = new Date().toISOString();
+    const aliases = remember
+      .filter(name => personIds[name])
+      .map(name => ({ alias: normalizeAlias(name), personId: personIds[name], savedAt }));
+    if (aliases.length > 0) {
+      try {
+        await savePayerAliases(aliases);
+      } catch (error) {
+        alert(`Could not remember these payer names for future imports: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    finishImport(resolved);
+    setPendingPayers(null);
+  };
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -16,21 +94,24 @@ export default function ImportExportPanel({ onLoadDraft, draft }: ImportExportPa
 
     try {
       const text = await file.text();
-      let parsedDraft: ReceiptDraft;
 
       if (file.name.toLowerCase().endsWith('.csv')) {
-        // For CSV, we need to provide a people bank. Extract from existing draft or create basic ones
-        const existingPeople = draft.people.length > 0 ? draft.people : [];
-        parsedDraft = parseCsvToDraft(text, existingPeople);
+        // Check the file reads as CSV, then let the user map its columns
+        parseCsv(text);
+        setPendingCsv({ text, fileName: file.name });
       } else if (file.name.toLowerCase().endsWith('.json')) {
-        parsedDraft = parseJsonToDraft(JSON.parse(text));
+        await loadImported(parseJsonToDraft(JSON.parse(text)));
+      } else if (file.name.toLowerCase().endsWith('.txt')) {
+        setPendingText({ text, fileName: file.name });
       } else {
-        throw new Error('Unsupported file type. Please upload a CSV or JSON file.');
+        throw new Error('Unsupported file type. Please upload a CSV, JSON or TXT file.');
       }
-
-      onLoadDraft(parsedDraft);
     } catch (error) {
-      alert(`Error importing file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (error instanceof SchemaError) {
+        alert(`Error importing file:\n${error.issues.map(issue => `• ${issue.path} ${issue.message}`).join('\n')}`);
+      } else {
+        alert(`Error importing file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
     }
 
     // Reset file input
@@ -40,11 +121,8 @@ export default function ImportExportPanel({ onLoadDraft, draft }: ImportExportPa
   };
 
   const exportDraft = () => {
-    const exportData = {
-      ...draft,
-      exportedAt: new Date().toISOString()
-    };
-    
+    const exportData = serializeDraft(draft);
+
     const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -57,11 +135,11 @@ export default function ImportExportPanel({ onLoadDraft, draft }: ImportExportPa
   };
 
   const createSampleCSV = () => {
-    const csvContent = `name,price,category
-Pizza,15.99,Food
-Soda,5.00,Drinks
-Salad,8.50,Food
-Dessert,6.99,Food`;
+    const csvContent = `name,quantity,unit_price,total,category,payers
+Pizza,1,15.99,15.99,Food,
+Soda,2,2.50,5.00,Drinks,
+"Chips, salted",1,,3.25,Food,
+Salad,1,8.50,8.50,Food,"alice:2,bob:1"`;
 
     const blob = new Blob([csvContent], { type: 'text/csv' });
     const url = URL.createObjectURL(blob);
@@ -82,14 +160,17 @@ Dessert,6.99,Food`;
         <input
           ref={fileInputRef}
           type="file"
-          accept=".csv,.json"
+          accept=".csv,.json,.txt"
           onChange={handleFileUpload}
           style={{ display: 'none' }}
         />
         
         <div className="import-buttons">
           <button onClick={() => fileInputRef.current?.click()}>
-            Import CSV/JSON
+            Import CSV/JSON/TXT
+          </button>
+          <button onClick={() => setPendingText({ text: '' })}>
+            Paste Receipt Text
           </button>
           <button onClick={createSampleCSV} className="sample-button">
             Download Sample CSV
@@ -104,6 +185,48 @@ Dessert,6.99,Food`;
         </p>
       </div>
       
+      {pendingCsv && (
+        <CsvImportWizard
+          csvText={pendingCsv.text}
+          fileName={pendingCsv.fileName}
+          people={draft.people}
+          currency={draft.currency}
+          onImport={(parsedDraft) => {
+            setPendingCsv(null);
+            loadImported(parsedDraft);
+          }}
+          onCancel={() => setPendingCsv(null)}
+        />
+      )}
+
+      {pendingText && (
+        <TextImportDialog
+          initialText={pendingText.text}
+          fileName={pendingText.fileName}
+          people={draft.people}
+          currency={draft.currency}
+          onImport={(parsedDraft) => {
+            finishImport(parsedDraft);
+            setPendingText(null);
+          }}
+          onCancel={() => setPendingText(null)}
+        />
+      )}
+
+      {pendingPayers && (
+        <PayerResolutionDialog
+          draft={pendingPayers.draft}
+          names={pendingPayers.names}
+          people={knownPeople}
+          aliases={pendingPayers.aliases}
+          onResolve={handleResolvePayers}
+          onSkip={() => {
+            finishImport(pendingPayers.draft);
+            setPendingPayers(null);
+          }}
+        />
+      )}
+
       <div className="export-section">
         <button onClick={exportDraft} disabled={draft.items.length === 0}>
           Export Current Draft
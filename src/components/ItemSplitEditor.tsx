@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import Decimal from 'decimal.js';
+import type { Item } from '../types';
+import { equalSplitPrices } from '../itemSplit';
+import type { SplitPart } from '../itemSplit';
+import { formatMoney, formatMoneyDelta, minorUnit, roundMoney } from '../currency';
+
+interface ItemSplitEditorProps {
+  item: Item;
+  currency: string;
+  onSplit: (parts: SplitPart[]) => void;
+  onCancel: () => void;
+}
+
+type PartInput = { name: string; price: string };
+
+// Custom parts start from the even split so only the differences need typing
+function evenParts(item: Item, count: number, currency: string): PartInput[] {
+  return equalSplitPrices(item.price, count, currency).map(price => ({ name: '', price: price.toString() }));
+}
+
+export default function ItemSplitEditor({ item, currency, onSplit, onCancel }: ItemSplitEditorProps) {
+  const [mode, setMode] = useState<'equal' | 'custom'>('equal');
+  const [count, setCount] = useState(2);
+  const [parts, setParts] = useState<PartInput[]>(() => evenParts(item, 2, currency));
+
+  const equalPrices = equalSplitPrices(item.price, count, currency);
+  const customTotal = parts.reduce((sum, part) => sum.plus(parseFloat(part.price) || 0), new Decimal(0)).toNumber();
+  const remaining = roundMoney(item.price - customTotal, currency);
+
+  const updatePart = (index: number, changes: Partial<PartInput>) => {
+    setParts(parts.map((part, i) => i === index ? { ...part, ...changes } : part));
+  };
+
+  const handleSplit = () => {
+    if (mode === 'equal') {
+      onSplit(equalPrices.map(price => ({ name: item.name, price })));
+    } else {
+      onSplit(parts.map(part => ({ name: part.name.trim() || item.name, price: parseFloat(part.price) || 0 })));
+    }
+  };
+
+  const canSplit = mode === 'equal'
+    ? count >= 2 && equalPrices.every(price => price > 0)
+    : parts.length >= 2 && remaining === 0 && parts.every(part => (parseFloat(part.price) || 0) > 0);
+
+  return (
+    <div className="item-split-editor">
+      <div className="item-split-mode">
+        <label>
+          <input type="radio" checked={mode === 'equal'} onChange={() => setMode('equal')} />
+          Into equal lines
+        </label>
+        <label>
+          <input type="radio" checked={mode === 'custom'} onChange={() => setMode('custom')} />
+          Into custom amounts
+        </label>
+      </div>
+
+      {mode === 'equal' ? (
+        <div className="item-split-equal">
+          <input
+            type="number"
+            min="2"
+            step="1"
+            value={count}
+            onChange={(e) => setCount(Math.max(2, parseInt(e.target.value) || 2))}
+          />
+          <span>
+            lines of {Array.from(new Set(equalPrices)).map(price => formatMoney(price, currency)).join(' / ')}
+          </span>
+        </div>
+      ) : (
+        <div className="item-split-parts">
+          {parts.map((part, index) => (
+            <div key={index} className="item-split-part">
+              <input
+                type="text"
+                placeholder={item.name}
+                value={part.name}
+                onChange={(e) => updatePart(index, { name: e.target.value })}
+              />
+              <input
+                type="number"
+                min="0"
+                step={minorUnit(currency)}
+                value={part.price}
+                onChange={(e) => updatePart(index, { price: e.target.value })}
+              />
+              <button onClick={() => setParts(parts.filter((_, i) => i !== index))} disabled={parts.length <= 2}>
+                Remove
+              </button>
+            </div>
+          ))}
+          <button onClick={() => setParts([...parts, { name: '', price: Math.max(remaining, 0).toString() }])}>
+            Add Line
+          </button>
+          <span className={remaining === 0 ? 'item-split-balanced' : 'item-split-unbalanced'}>
+            {remaining === 0
+              ? `Adds up to ${formatMoney(item.price, currency)}`
+              : `${formatMoneyDelta(remaining, currency)} left to assign`}
+          </span>
+        </div>
+      )}
+
+      <div className="item-split-actions">
+        <button onClick={handleSplit} disabled={!canSplit}>
+          Split into {mode === 'equal' ? count : parts.length} Lines
+        </button>
+        <button onClick={onCancel}>Cancel</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useMemo } from 'react';
+import type { LedgerReceipt } from '../types';
+import { computeLedger, ledgerPeople, receiptLabel } from '../ledger';
+import { formatMoney, formatMoneyDelta } from '../currency';
+
+interface LedgerPanelProps {
+  receipts: LedgerReceipt[];
+  activeReceiptId: string;
+  onAddReceipt: () => void;
+  onSelectReceipt: (receiptId: string) => void;
+  onRemoveReceipt: (receiptId: string) => void;
+}
+
+export default function LedgerPanel({
+  receipts,
+  activeReceiptId,
+  onAddReceipt,
+  onSelectReceipt,
+  onRemoveReceipt
+}: LedgerPanelProps) {
+  const summary = useMemo(() => computeLedger(receipts), [receipts]);
+  const people = useMemo(() => ledgerPeople(receipts), [receipts]);
+  const personName = (personId: string) => people.find(p => p.id === personId)?.name || personId;
+  const money = (n: number) => formatMoney(n, summary.currency);
+  const includedCount = summary.receipts.filter(r => r.included).length;
+
+  return (
+    <div className="ledger-panel app-section">
+      <div className="ledger-tabs">
+        {receipts.map((receipt, index) => (
+          <div
+            key={receipt.id}
+            className={`ledger-tab ${receipt.id === activeReceiptId ? 'active' : ''}`}
+          >
+            <button type="button" onClick={() => onSelectReceipt(receipt.id)}>
+              {receiptLabel(receipt, index)}
+            </button>
+            {receipts.length > 1 && (
+              <button
+                type="button"
+                className="ledger-tab-remove"
+                title="Remove receipt from the ledger"
+                onClick={() => {
+                  if (confirm(`Remove "${receiptLabel(receipt, index)}" from the ledger?`)) {
+                    onRemoveReceipt(receipt.id);
+                  }
+                }}
+              >
+                ×
+              </button>
+            )}
+          </div>
+        ))}
+        <button type="button" className="ledger-add" onClick={onAddReceipt}>
+          + Receipt
+        </button>
+      </div>
+
+      {receipts.length > 1 && (
+        <div className="ledger-summary">
+          <h3>Trip Ledger</h3>
+          <div className="ledger-table-wrapper">
+            <table className="breakdown-table">
+              <thead>
+                <tr>
+                  <th>Receipt</th>
+                  <th>Total</th>
+                  {people.map(person => (
+                    <th key={person.id}>{person.name}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {summary.receipts.map(entry => (
+                  <tr key={entry.receiptId} className={entry.included ? '' : 'ledger-excluded'}>
+                    <td className="person-name" title={entry.note}>
+                      {entry.label}
+                      {entry.note && <small> ({entry.note})</small>}
+                    </td>
+                    <td>{entry.included ? money(entry.grand) : '—'}</td>
+                    {people.map(person => (
+                      <td key={person.id}>
+                        {formatMoneyDelta(entry.running[person.id] ?? 0, summary.currency)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <small className="ledger-note">
+            Running balances after each receipt; positive means the person is owed money.
+          </small>
+
+          {includedCount > 0 && (
+            <div className="settle-up">
+              <h4>Settle up across {includedCount} receipt{includedCount === 1 ? '' : 's'}</h4>
+              {summary.transfers.length > 0 ? (
+                <ul className="transfers">
+                  {summary.transfers.map((transfer, index) => (
+                    <li key={index}>
+                      {personName(transfer.from)} owes {personName(transfer.to)} {money(transfer.amount)}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="settle-up-note">Everyone is square.</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import type { PayerAlias, Person, ReceiptDraft } from '../types';
+import { suggestPeople } from '../payerResolution';
+import type { PayerResolution, PersonSuggestion } from '../payerResolution';
+
+interface PayerResolutionDialogProps {
+  draft: ReceiptDraft;
+  names: string[]; // payer names that matched nobody
+  people: Person[]; // everyone a name can be mapped to
+  aliases: PayerAlias[];
+  onResolve: (resolutions: Record<string, PayerResolution>, remember: string[]) => void;
+  onSkip: () => void; // load the import with the names left unresolved
+}
+
+const REASON_LABELS: Record<PersonSuggestion['reason'], string> = {
+  alias: 'used before',
+  name: 'same name',
+  nickname: 'nickname',
+  prefix: 'short for',
+  spelling: 'similar spelling'
+};
+
+// Close matches start out mapped; anything else starts as a new person
+const CONFIDENT_MATCH = 0.8;
+
+export default function PayerResolutionDialog({
+  draft,
+  names,
+  people,
+  aliases,
+  onResolve,
+  onSkip
+}: PayerResolutionDialogProps) {
+  const suggestions = Object.fromEntries(names.map(name => [name, suggestPeople(name, people, aliases)]));
+
+  const [resolutions, setResolutions] = useState<Record<string, PayerResolution>>(() =>
+    Object.fromEntries(names.map(name => {
+      const [best] = suggestions[name];
+      return [name, best && best.score >= CONFIDENT_MATCH
+        ? { action: 'map', personId: best.person.id }
+        : { action: 'create', name }];
+    }))
+  );
+  const [remember, setRemember] = useState<string[]>(names);
+
+  const setResolution = (name: string, resolution: PayerResolution) => {
+    setResolutions({ ...resolutions, [name]: resolution });
+  };
+
+  // The select holds "create", "ignore" or a person ID to map to
+  const choose = (name: string, value: string) => {
+    if (value === 'create') setResolution(name, { action: 'create', name });
+    else if (value === 'ignore') setResolution(name, { action: 'ignore' });
+    else setResolution(name, { action: 'map', personId: value });
+  };
+
+  const itemCount = (name: string) => draft.items.filter(item => item.payers.includes(name)).length;
+  const others = (name: string) => people.filter(person => !suggestions[name].some(s => s.person.id === person.id));
+
+  return (
+    <div className="payer-resolution-dialog">
+      <h4>Who are these payers?</h4>
+      <p className="payer-resolution-help">
+        <small>
+          {names.length} payer name{names.length === 1 ? '' : 's'} in the import didn't match anyone.
+          Pick who each one is, add them as someone new, or leave them off.
+        </small>
+      </p>
+
+      {names.map(name => {
+        const resolution = resolutions[name];
+        const value = resolution.action === 'map' ? resolution.personId : resolution.action;
+        return (
+          <div key={name} className="payer-resolution-row">
+            <div className="payer-resolution-name">
+              <strong>"{name}"</strong>
+              <small>on {itemCount(name)} item{itemCount(name) === 1 ? '' : 's'}</small>
+            </div>
+            <select value={value} onChange={(e) => choose(name, e.target.value)}>
+              {suggestions[name].length > 0 && (
+                <optgroup label="Suggestions">
+                  {suggestions[name].map(({ person, reason }) => (
+                    <option key={person.id} value={person.id}>{person.name} ({REASON_LABELS[reason]})</option>
+                  ))}
+                </optgroup>
+              )}
+              {others(name).length > 0 && (
+                <optgroup label="Everyone else">
+                  {others(name).map(person => (
+                    <option key={person.id} value={person.id}>{person.name}</option>
+                  ))}
+                </optgroup>
+              )}
+              <option value="create">Add as a new person</option>
+              <option value="ignore">Leave off</option>
+            </select>
+            {resolution.action === 'create' && (
+              <input
+                type="text"
+                value={resolution.name}
+                onChange={(e) => setResolution(name, { action: 'create', name: e.target.value })}
+                placeholder="Name"
+              />
+            )}
+            {resolution.action !== 'ignore' && (
+              <label className="payer-resolution-remember">
+                <input
+                  type="checkbox"
+                  checked={remember.includes(name)}
+                  onChange={(e) => setRemember(e.target.checked
+                    ? [...remember, name]
+                    : remember.filter(n => n !== name))}
+                />
+                Remember for future imports
+              </label>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="wizard-actions">
+        <button
+          type="button"
+          onClick={() => onResolve(resolutions, remember)}
+          disabled={Object.values(resolutions).some(r => r.action === 'create' && !r.name.trim())}
+        >
+          Apply
+        </button>
+        <button type="button" onClick={onSkip}>Skip for now</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import type { PayerRule, PeopleGroup, Person } from '../types';
+import { describeRuleMatch, newRuleId, ruleProblem } from '../rules';
+import { formatMoney } from '../currency';
+import PayerSelector from './PayerSelector';
+
+interface PayerRulesPanelProps {
+  rules: PayerRule[];
+  people: Person[]; // everyone a rule can assign: the directory and the open receipt
+  groups: PeopleGroup[];
+  currency: string;
+  onChange: (rules: PayerRule[]) => void;
+}
+
+type NameMode = 'contains' | 'pattern';
+
+const emptyRule = (): PayerRule => ({
+  id: newRuleId(),
+  name: '',
+  enabled: true,
+  match: {},
+  payers: []
+});
+
+function parsePrice(value: string): number | undefined {
+  const price = parseFloat(value);
+  return Number.isNaN(price) ? undefined : price;
+}
+
+export default function PayerRulesPanel({ rules, people, groups, currency, onChange }: PayerRulesPanelProps) {
+  const [editing, setEditing] = useState<PayerRule | null>(null);
+  const [nameMode, setNameMode] = useState<NameMode>('contains');
+
+  const startEdit = (rule: PayerRule) => {
+    setEditing(rule);
+    setNameMode(rule.match.namePattern ? 'pattern' : 'contains');
+  };
+
+  const updateMatch = (changes: Partial<PayerRule['match']>) => {
+    if (!editing) return;
+    setEditing({ ...editing, match: { ...editing.match, ...changes } });
+  };
+
+  // Switching modes carries the typed text across
+  const changeNameMode = (mode: NameMode) => {
+    if (!editing) return;
+    const text = editing.match.nameContains ?? editing.match.namePattern;
+    setNameMode(mode);
+    updateMatch(mode === 'pattern'
+      ? { namePattern: text, nameContains: undefined }
+      : { nameContains: text, namePattern: undefined });
+  };
+
+  const addGroup = (groupId: string) => {
+    const group = groups.find(g => g.id === groupId);
+    if (!editing || !group) return;
+    const added = group.memberIds.filter(id => people.some(p => p.id === id) && !editing.payers.includes(id));
+    setEditing({ ...editing, payers: [...editing.payers, ...added] });
+  };
+
+  const handleSave = () => {
+    if (!editing || ruleProblem(editing)) return;
+    const rule = { ...editing, name: editing.name.trim() || describeRuleMatch(editing, n => formatMoney(n, currency)) };
+    onChange(rules.some(r => r.id === rule.id)
+      ? rules.map(r => r.id === rule.id ? rule : r)
+      : [...rules, rule]);
+    setEditing(null);
+  };
+
+  const handleDelete = (rule: PayerRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"? Items it already assigned keep their payers.`)) return;
+    onChange(rules.filter(r => r.id !== rule.id));
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...rules];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const payerSummary = (rule: PayerRule) => {
+    if (rule.everyone) return 'everyone on the receipt';
+    return rule.payers
+      .map(payerId => {
+        const name = people.find(p => p.id === payerId)?.name ?? 'someone removed';
+        const weight = rule.weights?.[payerId];
+        return weight !== undefined && weight !== 1 ? `${name} ×${weight}` : name;
+      })
+      .join(', ');
+  };
+
+  const problem = editing && ruleProblem(editing);
+  const nameText = editing?.match.nameContains ?? editing?.match.namePattern ?? '';
+
+  return (
+    <div className="payer-rules">
+      <h3>Payer Rules</h3>
+      <p className="payer-rules-help">
+        <small>Fill in payers for imported or unassigned items. The first matching rule wins.</small>
+      </p>
+
+      {rules.length > 0 && (
+        <ol className="payer-rule-list">
+          {rules.map((rule, index) => (
+            <li key={rule.id} className={rule.enabled ? '' : 'payer-rule-disabled'}>
+              <label className="payer-rule-summary">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  title="Use this rule"
+                  onChange={(e) => onChange(rules.map(r => r.id === rule.id ? { ...r, enabled: e.target.checked } : r))}
+                />
+                <span>
+                  <strong>{rule.name}</strong>
+                  <small>
+                    {describeRuleMatch(rule, n => formatMoney(n, currency))} → {payerSummary(rule)}
+                  </small>
+                </span>
+              </label>
+              <div className="person-actions">
+                <button onClick={() => move(index, -1)} disabled={index === 0} title="Check earlier">↑</button>
+                <button onClick={() => move(index, 1)} disabled={index === rules.length - 1} title="Check later">↓</button>
+                <button onClick={() => startEdit(rule)}>Edit</button>
+                <button onClick={() => handleDelete(rule)}>Delete</button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {editing ? (
+        <div className="payer-rule-editor">
+          <input
+            type="text"
+            placeholder='Rule name, e.g. "Drinks"'
+            value={editing.name}
+            onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+            autoFocus
+          />
+          <div className="payer-rule-conditions">
+            <label>
+              <span>Category is</span>
+              <input
+                type="text"
+                placeholder="Any"
+                value={editing.match.category ?? ''}
+                onChange={(e) => updateMatch({ category: e.target.value || undefined })}
+              />
+            </label>
+            <label>
+              <select value={nameMode} onChange={(e) => changeNameMode(e.target.value as NameMode)}>
+                <option value="contains">Name contains</option>
+                <option value="pattern">Name matches regex</option>
+              </select>
+              <input
+                type="text"
+                placeholder={nameMode === 'pattern' ? 'e.g. ^(beer|wine)' : 'Any'}
+                value={nameText}
+                onChange={(e) => updateMatch(nameMode === 'pattern'
+                  ? { namePattern: e.target.value || undefined }
+                  : { nameContains: e.target.value || undefined })}
+              />
+            </label>
+            <label>
+              <span>Price from</span>
+              <input
+                type="number"
+                min="0"
+                value={editing.match.minPrice ?? ''}
+                onChange={(e) => updateMatch({ minPrice: parsePrice(e.target.value) })}
+              />
+              <span>to</span>
+              <input
+                type="number"
+                min="0"
+                value={editing.match.maxPrice ?? ''}
+                onChange={(e) => updateMatch({ maxPrice: parsePrice(e.target.value) })}
+              />
+            </label>
+          </div>
+
+          <label className="payer-rule-everyone">
+            <input
+              type="checkbox"
+              checked={editing.everyone ?? false}
+              onChange={(e) => setEditing({ ...editing, everyone: e.target.checked || undefined })}
+            />
+            Everyone on the receipt
+          </label>
+          {!editing.everyone && (
+            <>
+              {groups.length > 0 && (
+                <select value="" onChange={(e) => addGroup(e.target.value)}>
+                  <option value="">Add a group…</option>
+                  {groups.map(group => <option key={group.id} value={group.id}>{group.name}</option>)}
+                </select>
+              )}
+              <PayerSelector
+                people={people}
+                selectedPayers={editing.payers}
+                weights={editing.weights}
+                onChange={(payers, weights) => setEditing({
+                  ...editing,
+                  payers,
+                  weights: Object.keys(weights).length > 0 ? weights : undefined
+                })}
+              />
+            </>
+          )}
+
+          {problem && <small className="payer-rule-problem">{problem}</small>}
+          <div className="person-actions">
+            <button onClick={handleSave} disabled={!!problem}>Save Rule</button>
+            <button onClick={() => setEditing(null)}>Cancel</button>
+          </div>
+        </div>
+      ) : (
+        <button className="payer-rule-new" onClick={() => startEdit(emptyRule())}>New Rule</button>
+      )}
+    </div>
+  );
+}
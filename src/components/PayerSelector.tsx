@@ -1,26 +1,67 @@
+import { useState } from 'react';
 import type { Person } from '../types';
 
 interface PayerSelectorProps {
   people: Person[];
   selectedPayers: string[];
-  onChange: (payers: string[]) => void;
+  weights?: Record<string, number>;
+  showWeights?: boolean;
+  onChange: (payers: string[], weights: Record<string, number>) => void;
 }
 
-export default function PayerSelector({ people, selectedPayers, onChange }: PayerSelectorProps) {
-  const togglePayer = (personId: string) => {
-    if (selectedPayers.includes(personId)) {
-      onChange(selectedPayers.filter(id => id !== personId));
-    } else {
-      onChange([...selectedPayers, personId]);
+export default function PayerSelector({
+  people,
+  selectedPayers,
+  weights = {},
+  showWeights = true,
+  onChange
+}: PayerSelectorProps) {
+  // Only keep weights for selected payers that differ from the default of 1
+  const cleanWeights = (payers: string[], next: Record<string, number>) => {
+    const cleaned: Record<string, number> = {};
+    for (const payerId of payers) {
+      if (next[payerId] !== undefined && next[payerId] !== 1) {
+        cleaned[payerId] = next[payerId];
+      }
     }
+    return cleaned;
+  };
+
+  const togglePayer = (personId: string) => {
+    const payers = selectedPayers.includes(personId)
+      ? selectedPayers.filter(id => id !== personId)
+      : [...selectedPayers, personId];
+    onChange(payers, cleanWeights(payers, weights));
+  };
+
+  // Text in a weight field while it's being typed; the weight itself only
+  // changes once the text is a positive number
+  const [weightText, setWeightText] = useState<Record<string, string>>({});
+
+  const setWeight = (personId: string, value: string) => {
+    setWeightText({ ...weightText, [personId]: value });
+    const weight = parseFloat(value);
+    if (!(weight > 0)) return;
+    onChange(selectedPayers, cleanWeights(selectedPayers, { ...weights, [personId]: weight }));
+  };
+
+  const finishWeight = (personId: string) => {
+    const rest = { ...weightText };
+    delete rest[personId];
+    setWeightText(rest);
   };
 
   const selectAll = () => {
-    onChange(people.map(p => p.id));
+    const payers = people.map(p => p.id);
+    onChange(payers, cleanWeights(payers, weights));
   };
 
   const selectNone = () => {
-    onChange([]);
+    onChange([], {});
+  };
+
+  const splitEvenly = () => {
+    onChange(selectedPayers, {});
   };
 
   if (people.length === 0) {
@@ -36,20 +77,46 @@ export default function PayerSelector({ people, selectedPayers, onChange }: Paye
         <button type="button" onClick={selectNone} className="select-none">
           None
         </button>
-      </div>
-      
-      <div className="payer-chips">
-        {people.map((person) => (
+        {showWeights && (
           <button
-            key={person.id}
             type="button"
-            className={`payer-chip ${selectedPayers.includes(person.id) ? 'selected' : ''}`}
-            onClick={() => togglePayer(person.id)}
+            onClick={splitEvenly}
+            className="split-even"
+            disabled={Object.keys(weights).length === 0}
           >
-            {person.name}
+            Even
           </button>
-        ))}
+        )}
+      </div>
+
+      <div className="payer-chips">
+        {people.map((person) => {
+          const isSelected = selectedPayers.includes(person.id);
+          return (
+            <span key={person.id} className="payer-chip-group">
+              <button
+                type="button"
+                className={`payer-chip ${isSelected ? 'selected' : ''}`}
+                onClick={() => togglePayer(person.id)}
+              >
+                {person.name}
+              </button>
+              {showWeights && isSelected && (
+                <input
+                  type="number"
+                  className="payer-weight"
+                  min="0"
+                  step="0.5"
+                  title={`Weight for ${person.name}`}
+                  value={weightText[person.id] ?? weights[person.id] ?? 1}
+                  onChange={(e) => setWeight(person.id, e.target.value)}
+                  onBlur={() => finishWeight(person.id)}
+                />
+              )}
+            </span>
+          );
+        })}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
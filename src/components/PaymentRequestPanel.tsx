@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import type { Person } from '../types';
+import { PAYMENT_METHOD_LABELS, paymentMessage, paymentRequests } from '../paymentLinks';
+
+interface PaymentRequestPanelProps {
+  payerName: string;
+  payee: Person | undefined;
+  amount: number;
+  currency: string;
+  receiptTitle: string;
+}
+
+// Rendered in the browser from the text itself; nothing is sent anywhere
+function QrCode({ text }: { text: string }) {
+  // The SVG for `text`, or null when it could not be drawn
+  const [rendered, setRendered] = useState<{ text: string; svg: string | null } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    QRCode.toString(text, { type: 'svg', margin: 1, errorCorrectionLevel: 'M' })
+      .then(svg => {
+        if (!cancelled) setRendered({ text, svg });
+      })
+      .catch(() => {
+        if (!cancelled) setRendered({ text, svg: null });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [text]);
+
+  if (rendered?.text !== text) return null;
+  const { svg } = rendered;
+  if (!svg) return <small className="payment-qr-unavailable">QR unavailable</small>;
+  return (
+    <img
+      className="payment-qr"
+      src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`}
+      alt="QR code for this payment"
+    />
+  );
+}
+
+export default function PaymentRequestPanel({
+  payerName,
+  payee,
+  amount,
+  currency,
+  receiptTitle
+}: PaymentRequestPanelProps) {
+  if (!payee) return null;
+
+  const note = `${receiptTitle} - ${payerName}`;
+  const requests = paymentRequests(payee, amount, currency, note);
+  const message = paymentMessage(payerName, payee.name, amount, currency, receiptTitle, requests);
+
+  if (requests.length === 0) {
+    return (
+      <small className="payment-request-hint">
+        Add {payee.name}'s payment handles under People to get payment links.
+      </small>
+    );
+  }
+
+  return (
+    <details className="payment-request">
+      <summary>Request payment</summary>
+      <div className="payment-request-options">
+        {requests.map(request => (
+          <div key={request.method} className="payment-request-option">
+            <QrCode text={request.qrText} />
+            <div>
+              <strong>{PAYMENT_METHOD_LABELS[request.method]}</strong>
+              {request.url ? (
+                <a href={request.url} target="_blank" rel="noreferrer">{request.url}</a>
+              ) : (
+                <code>{request.handle}</code>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      <textarea className="payment-message" readOnly value={message} rows={requests.length + 1} />
+      <button type="button" onClick={() => navigator.clipboard.writeText(message)}>
+        Copy message
+      </button>
+    </details>
+  );
+}
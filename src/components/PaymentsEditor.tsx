@@ -0,0 +1,70 @@
+import type { Payment, Person } from '../types';
+import { formatMoney, minorUnit, roundMoney } from '../currency';
+
+interface PaymentsEditorProps {
+  payments: Payment[];
+  people: Person[];
+  receiptGrand: number;
+  currency: string;
+  onChange: (payments: Payment[] | undefined) => void;
+}
+
+// Who actually paid at the register, so the results can say who owes whom
+export default function PaymentsEditor({ payments, people, receiptGrand, currency, onChange }: PaymentsEditorProps) {
+  const paidTotal = payments.reduce((sum, payment) => sum + payment.amount, 0);
+  const unpaid = receiptGrand - paidTotal;
+
+  const updatePayment = (index: number, payment: Payment) => {
+    onChange(payments.map((p, i) => (i === index ? payment : p)));
+  };
+
+  const removePayment = (index: number) => {
+    const next = payments.filter((_, i) => i !== index);
+    onChange(next.length > 0 ? next : undefined);
+  };
+
+  const handleAddPayment = () => {
+    const unusedPerson = people.find(person => !payments.some(p => p.personId === person.id)) ?? people[0];
+    if (!unusedPerson) return;
+    // Start the new payer off with whatever is still unpaid
+    onChange([...payments, { personId: unusedPerson.id, amount: Math.max(0, roundMoney(unpaid, currency)) }]);
+  };
+
+  return (
+    <div className="payments-editor">
+      <div className="totals-row">
+        <span>Paid by:</span>
+        <button type="button" onClick={handleAddPayment} disabled={people.length === 0}>
+          + Payer
+        </button>
+      </div>
+      {payments.map((payment, index) => (
+        <div key={index} className="payment-row">
+          <select
+            value={payment.personId}
+            onChange={(e) => updatePayment(index, { ...payment, personId: e.target.value })}
+          >
+            {people.map(person => (
+              <option key={person.id} value={person.id}>{person.name}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="0"
+            step={minorUnit(currency)}
+            value={payment.amount}
+            onChange={(e) => updatePayment(index, { ...payment, amount: parseFloat(e.target.value) || 0 })}
+          />
+          <button onClick={() => removePayment(index)}>Remove</button>
+        </div>
+      ))}
+      {payments.length > 0 && Math.abs(unpaid) >= minorUnit(currency) / 2 && (
+        <small className="payments-mismatch">
+          {unpaid > 0
+            ? `${formatMoney(unpaid, currency)} of the total is not covered by a payer`
+            : `Payments are ${formatMoney(-unpaid, currency)} more than the total`}
+        </small>
+      )}
+    </div>
+  );
+}
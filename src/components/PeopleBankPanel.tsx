@@ -1,15 +1,26 @@
 import { useState } from 'react';
-import type { Person } from '../types';
+import type { PaymentMethod, Person } from '../types';
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS, normalizeHandle } from '../paymentLinks';
+import { findPersonByName, newPersonId } from '../directory';
 
 interface PeopleBankPanelProps {
   people: Person[];
+  directoryPeople: Person[]; // everyone remembered from earlier receipts
   onAddPerson: (person: Person) => void;
   onUpdatePerson: (person: Person) => void;
   onRemovePerson: (personId: string) => void;
 }
 
+const HANDLE_PLACEHOLDERS: Record<PaymentMethod, string> = {
+  venmo: 'username',
+  paypal: 'paypal.me name',
+  cashapp: '$cashtag',
+  bank: 'IBAN or account reference'
+};
+
 export default function PeopleBankPanel({
   people,
+  directoryPeople,
   onAddPerson,
   onUpdatePerson,
   onRemovePerson
@@ -17,37 +28,49 @@ export default function PeopleBankPanel({
   const [newPersonName, setNewPersonName] = useState('');
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
+  const [editHandles, setEditHandles] = useState<Partial<Record<PaymentMethod, string>>>({});
 
   const handleAddPerson = () => {
-    if (!newPersonName.trim()) return;
+    const name = newPersonName.trim();
+    if (!name) return;
 
-    const id = `person_${Date.now()}`;
-    onAddPerson({
-      id,
-      name: newPersonName.trim()
-    });
+    // Someone already in the directory keeps their ID and payment handles
+    const known = findPersonByName(directoryPeople, name);
+    if (!known || !people.some(p => p.id === known.id)) {
+      onAddPerson(known ?? { id: newPersonId(), name });
+    }
     setNewPersonName('');
   };
 
+  const suggestions = directoryPeople.filter(person => !people.some(p => p.id === person.id));
+
   const handleStartEdit = (person: Person) => {
     setEditingId(person.id);
     setEditName(person.name);
+    setEditHandles(person.handles ?? {});
   };
 
   const handleSaveEdit = () => {
-    if (!editName.trim() || !editingId) return;
+    const person = people.find(p => p.id === editingId);
+    if (!editName.trim() || !person) return;
 
+    const handles: Person['handles'] = {};
+    for (const method of PAYMENT_METHODS) {
+      const handle = normalizeHandle(method, editHandles[method] ?? '');
+      if (handle) handles[method] = handle;
+    }
     onUpdatePerson({
-      id: editingId,
-      name: editName.trim()
+      ...person,
+      name: editName.trim(),
+      handles: Object.keys(handles).length > 0 ? handles : undefined
     });
-    setEditingId(null);
-    setEditName('');
+    handleCancelEdit();
   };
 
   const handleCancelEdit = () => {
     setEditingId(null);
     setEditName('');
+    setEditHandles({});
   };
 
   return (
@@ -61,7 +84,11 @@ export default function PeopleBankPanel({
           value={newPersonName}
           onChange={(e) => setNewPersonName(e.target.value)}
           onKeyDown={(e) => e.key === 'Enter' && handleAddPerson()}
+          list="directory-people"
         />
+        <datalist id="directory-people">
+          {suggestions.map(person => <option key={person.id} value={person.name} />)}
+        </datalist>
         <button onClick={handleAddPerson} disabled={!newPersonName.trim()}>
           Add
         </button>
@@ -74,25 +101,52 @@ export default function PeopleBankPanel({
           people.map((person) => (
             <div key={person.id} className="person-item">
               {editingId === person.id ? (
-                <div className="edit-person">
-                  <input
-                    type="text"
-                    value={editName}
-                    onChange={(e) => setEditName(e.target.value)}
-                    onKeyDown={(e) => {
-                      if (e.key === 'Enter') handleSaveEdit();
-                      if (e.key === 'Escape') handleCancelEdit();
-                    }}
-                    autoFocus
-                  />
-                  <button onClick={handleSaveEdit} disabled={!editName.trim()}>
-                    Save
-                  </button>
-                  <button onClick={handleCancelEdit}>Cancel</button>
-                </div>
+                <>
+                  <div className="edit-person">
+                    <input
+                      type="text"
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleSaveEdit();
+                        if (e.key === 'Escape') handleCancelEdit();
+                      }}
+                      autoFocus
+                    />
+                    <button onClick={handleSaveEdit} disabled={!editName.trim()}>
+                      Save
+                    </button>
+                    <button onClick={handleCancelEdit}>Cancel</button>
+                  </div>
+                  <div className="edit-handles">
+                    {PAYMENT_METHODS.map(method => (
+                      <label key={method}>
+                        <span>{PAYMENT_METHOD_LABELS[method]}</span>
+                        <input
+                          type="text"
+                          placeholder={HANDLE_PLACEHOLDERS[method]}
+                          value={editHandles[method] ?? ''}
+                          onChange={(e) => setEditHandles({ ...editHandles, [method]: e.target.value })}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleSaveEdit();
+                            if (e.key === 'Escape') handleCancelEdit();
+                          }}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                </>
               ) : (
                 <div className="view-person">
-                  <span className="person-name">{person.name}</span>
+                  <span className="person-name">
+                    {person.name}
+                    {person.handles && (
+                      <small className="person-handles">
+                        {PAYMENT_METHODS.filter(method => person.handles?.[method])
+                          .map(method => PAYMENT_METHOD_LABELS[method]).join(', ')}
+                      </small>
+                    )}
+                  </span>
                   <div className="person-actions">
                     <button onClick={() => handleStartEdit(person)}>Edit</button>
                     <button onClick={() => onRemovePerson(person.id)}>Remove</button>
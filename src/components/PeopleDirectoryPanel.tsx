@@ -0,0 +1,217 @@
+import { useRef, useState } from 'react';
+import type { PeopleDirectory, PeopleGroup, Person } from '../types';
+import { groupMembers, newGroupId } from '../directory';
+import { SchemaError, parseDirectoryFile, serializeDirectory } from '../schema';
+
+interface PeopleDirectoryPanelProps {
+  directory: PeopleDirectory;
+  receiptPeople: Person[]; // people on the open receipt
+  onAddPeople: (people: Person[], groupName?: string) => void;
+  onUpdatePerson: (person: Person) => void;
+  onForgetPerson: (personId: string) => void;
+  onSaveGroup: (group: PeopleGroup) => void;
+  onRemoveGroup: (groupId: string) => void;
+  onImport: (directory: PeopleDirectory) => void;
+}
+
+export default function PeopleDirectoryPanel({
+  directory,
+  receiptPeople,
+  onAddPeople,
+  onUpdatePerson,
+  onForgetPerson,
+  onSaveGroup,
+  onRemoveGroup,
+  onImport
+}: PeopleDirectoryPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [editingGroup, setEditingGroup] = useState<PeopleGroup | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const onReceipt = (personId: string) => receiptPeople.some(p => p.id === personId);
+
+  // A new group starts with whoever on the receipt is already in the directory
+  const startNewGroup = () => {
+    setEditingGroup({
+      id: newGroupId(),
+      name: '',
+      memberIds: receiptPeople.filter(p => directory.people.some(d => d.id === p.id)).map(p => p.id)
+    });
+  };
+
+  const toggleMember = (personId: string) => {
+    if (!editingGroup) return;
+    const memberIds = editingGroup.memberIds.includes(personId)
+      ? editingGroup.memberIds.filter(id => id !== personId)
+      : [...editingGroup.memberIds, personId];
+    setEditingGroup({ ...editingGroup, memberIds });
+  };
+
+  const handleSaveGroup = () => {
+    if (!editingGroup || !editingGroup.name.trim()) return;
+    onSaveGroup({ ...editingGroup, name: editingGroup.name.trim() });
+    setEditingGroup(null);
+  };
+
+  const handleDeleteGroup = (group: PeopleGroup) => {
+    if (!confirm(`Delete the group "${group.name}"? Its people stay in the directory.`)) return;
+    onRemoveGroup(group.id);
+  };
+
+  const handleRename = (person: Person) => {
+    const name = renameValue.trim();
+    setRenamingId(null);
+    if (name && name !== person.name) onUpdatePerson({ ...person, name });
+  };
+
+  const handleForget = (person: Person) => {
+    if (!confirm(`Remove ${person.name} from the directory? Receipts they're on keep them.`)) return;
+    onForgetPerson(person.id);
+  };
+
+  const exportDirectory = () => {
+    const blob = new Blob([JSON.stringify(serializeDirectory(directory), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `people-directory-${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const imported = parseDirectoryFile(JSON.parse(await file.text()));
+      onImport(imported);
+      alert(`Imported ${imported.people.length} people and ${imported.groups.length} groups.`);
+    } catch (error) {
+      if (error instanceof SchemaError) {
+        alert(`Error importing people:\n${error.issues.map(issue => `• ${issue.path} ${issue.message}`).join('\n')}`);
+      } else {
+        alert(`Error importing people: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="people-directory">
+      <h3>Directory</h3>
+
+      <div className="directory-groups">
+        {directory.groups.map(group => {
+          const members = groupMembers(directory, group);
+          const missing = members.filter(person => !onReceipt(person.id));
+          return (
+            <div key={group.id} className="directory-group">
+              <span className="directory-group-name">
+                {group.name}
+                <small>{members.map(person => person.name).join(', ') || 'No members'}</small>
+              </span>
+              <div className="person-actions">
+                <button onClick={() => onAddPeople(members, group.name)} disabled={missing.length === 0}>
+                  Add to receipt
+                </button>
+                <button onClick={() => setEditingGroup(group)}>Edit</button>
+                <button onClick={() => handleDeleteGroup(group)}>Delete</button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {editingGroup ? (
+        <div className="directory-group-editor">
+          <input
+            type="text"
+            placeholder='Group name, e.g. "Friday lunch"'
+            value={editingGroup.name}
+            onChange={(e) => setEditingGroup({ ...editingGroup, name: e.target.value })}
+            autoFocus
+          />
+          <div className="directory-group-members">
+            {directory.people.map(person => (
+              <label key={person.id}>
+                <input
+                  type="checkbox"
+                  checked={editingGroup.memberIds.includes(person.id)}
+                  onChange={() => toggleMember(person.id)}
+                />
+                {person.name}
+              </label>
+            ))}
+          </div>
+          <div className="person-actions">
+            <button onClick={handleSaveGroup} disabled={!editingGroup.name.trim()}>Save Group</button>
+            <button onClick={() => setEditingGroup(null)}>Cancel</button>
+          </div>
+        </div>
+      ) : (
+        <button className="directory-new-group" onClick={startNewGroup} disabled={directory.people.length === 0}>
+          New Group
+        </button>
+      )}
+
+      {directory.people.length === 0 ? (
+        <p className="empty-state">People you add to a receipt are remembered here.</p>
+      ) : (
+        <ul className="directory-people">
+          {directory.people.map(person => (
+            <li key={person.id}>
+              {renamingId === person.id ? (
+                <input
+                  type="text"
+                  value={renameValue}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleRename(person);
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  autoFocus
+                />
+              ) : (
+                <span className="directory-person-name">
+                  {person.name}
+                  {onReceipt(person.id) && <small> (on this receipt)</small>}
+                </span>
+              )}
+              <div className="person-actions">
+                {!onReceipt(person.id) && <button onClick={() => onAddPeople([person])}>Add</button>}
+                <button
+                  onClick={() => {
+                    setRenamingId(person.id);
+                    setRenameValue(person.name);
+                  }}
+                >
+                  Rename
+                </button>
+                <button onClick={() => handleForget(person)}>Forget</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="directory-file-actions">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json"
+          onChange={handleFileUpload}
+          style={{ display: 'none' }}
+        />
+        <button onClick={exportDirectory} disabled={directory.people.length === 0}>Export People</button>
+        <button onClick={() => fileInputRef.current?.click()}>Import People</button>
+      </div>
+    </div>
+  );
+}
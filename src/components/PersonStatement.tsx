@@ -0,0 +1,104 @@
+import type { CalculationResult, PersonBreakdown, ReceiptDraft } from '../types';
+import { formatMoney, formatMoneyDelta } from '../currency';
+import { allocationLineLabel, statementFile, statementText } from '../statement';
+
+interface PersonStatementProps {
+  breakdown: PersonBreakdown;
+  personName: string;
+  draft: ReceiptDraft;
+  result: CalculationResult;
+  final: boolean; // errors block sharing, as with the full breakdown
+  onClose: () => void;
+}
+
+export default function PersonStatement({
+  breakdown,
+  personName,
+  draft,
+  result,
+  final,
+  onClose
+}: PersonStatementProps) {
+  const money = (n: number) => formatMoney(n, draft.currency);
+  const taxLabel = draft.pricesIncludeTax ? 'Incl. tax' : 'Tax';
+
+  const copyStatement = () => {
+    navigator.clipboard.writeText(statementText(breakdown, personName, draft, result));
+  };
+
+  const exportStatement = () => {
+    const exportData = statementFile(breakdown, personName, draft, result);
+
+    const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `statement-${personName}-${draft.storeName || 'receipt'}-${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="person-statement">
+      <div className="person-statement-header">
+        <h4>{personName}'s statement</h4>
+        <button type="button" onClick={onClose}>Close</button>
+      </div>
+      <table className="breakdown-table">
+        <thead>
+          <tr>
+            <th>Line</th>
+            <th>Amount</th>
+            <th>Discount</th>
+            <th>{taxLabel}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {breakdown.lines.map((line, index) => (
+            <tr key={index} className={`statement-${line.kind}`}>
+              <td>{allocationLineLabel(line)}</td>
+              {line.kind === 'item' ? (
+                <>
+                  <td>{money(line.amount)}</td>
+                  <td>{line.discount > 0 ? `−${money(line.discount)}` : ''}</td>
+                  <td>{line.tax > 0 ? money(line.tax) : ''}</td>
+                </>
+              ) : (
+                <>
+                  <td>
+                    {line.kind === 'discount' ? `−${money(line.amount)}` :
+                      line.kind === 'rounding' ? formatMoneyDelta(line.amount, draft.currency) :
+                      money(line.amount)}
+                  </td>
+                  <td />
+                  <td />
+                </>
+              )}
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td>Total</td>
+            <td className="total-owed" colSpan={3}>{money(breakdown.total)}</td>
+          </tr>
+        </tfoot>
+      </table>
+      <div className="result-actions">
+        <button
+          onClick={copyStatement}
+          className="copy-button"
+          disabled={!final}
+          title={final ? undefined : 'Fix the errors above before sharing the statement'}
+        >
+          Copy Statement
+        </button>
+        <button onClick={exportStatement} className="export-button">
+          Export Statement
+        </button>
+      </div>
+    </div>
+  );
+}
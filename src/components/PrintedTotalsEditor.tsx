@@ -0,0 +1,110 @@
+import type { Item, ReceiptDraft, ReconciliationSuggestion, TotalsComparison, TotalsReconciliation } from '../types';
+import { formatMoney, formatMoneyDelta, minorUnit } from '../currency';
+import { suggestionMessage } from '../reconcile';
+
+interface PrintedTotalsEditorProps {
+  draft: ReceiptDraft;
+  reconciliation?: TotalsReconciliation;
+  onUpdateMeta: (meta: Partial<ReceiptDraft>) => void;
+  onUpdateItem: (item: Item) => void;
+  onRemoveItem: (itemId: string) => void;
+}
+
+export default function PrintedTotalsEditor({
+  draft,
+  reconciliation,
+  onUpdateMeta,
+  onUpdateItem,
+  onRemoveItem
+}: PrintedTotalsEditorProps) {
+  const currency = draft.currency;
+  const item = (itemId: string) => draft.items.find(i => i.id === itemId);
+
+  const status = (comparison?: TotalsComparison) => {
+    if (!comparison) return null;
+    return comparison.difference === 0
+      ? <span className="printed-match">✓ matches</span>
+      : <span className="printed-mismatch">✗ off by {formatMoneyDelta(comparison.difference, currency)}</span>;
+  };
+
+  // One-click fixes for the suggestions that point at a single item
+  const fix = (suggestion: ReconciliationSuggestion) => {
+    if (suggestion.kind === 'transposed-digits') {
+      const target = item(suggestion.itemId);
+      if (!target) return null;
+      return (
+        <button
+          type="button"
+          onClick={() => onUpdateItem({ ...target, price: suggestion.suggestedPrice, unitPrice: undefined })}
+        >
+          Use {formatMoney(suggestion.suggestedPrice, currency)}
+        </button>
+      );
+    }
+    if (suggestion.kind === 'duplicate-item') {
+      return <button type="button" onClick={() => onRemoveItem(suggestion.itemId)}>Remove duplicate</button>;
+    }
+    return null;
+  };
+
+  const setPrinted = (field: 'printedSubtotal' | 'printedTotal', value: string) => {
+    onUpdateMeta({ [field]: value === '' ? undefined : parseFloat(value) || 0 });
+  };
+
+  return (
+    <div className="printed-totals">
+      <div className="totals-row">
+        <span>Printed subtotal:</span>
+        <span className="printed-field">
+          {status(reconciliation?.subtotal)}
+          <input
+            type="number"
+            min="0"
+            step={minorUnit(currency)}
+            placeholder="optional"
+            value={draft.printedSubtotal ?? ''}
+            onChange={(e) => setPrinted('printedSubtotal', e.target.value)}
+          />
+        </span>
+      </div>
+      <div className="totals-row">
+        <span>Printed total:</span>
+        <span className="printed-field">
+          {status(reconciliation?.total)}
+          <input
+            type="number"
+            min="0"
+            step={minorUnit(currency)}
+            placeholder="optional"
+            value={draft.printedTotal ?? ''}
+            onChange={(e) => setPrinted('printedTotal', e.target.value)}
+          />
+        </span>
+      </div>
+
+      {reconciliation && !reconciliation.reconciled && (
+        <div className="printed-mismatch-help">
+          {reconciliation.suggestions.length > 0 ? (
+            <ul>
+              {reconciliation.suggestions.map((suggestion, index) => (
+                <li key={index}>
+                  {suggestionMessage(suggestion, draft)} {fix(suggestion)}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <small>Check for a skipped line, a mistyped price, or a tax or tip that differs from the receipt.</small>
+          )}
+          <label className="printed-override">
+            <input
+              type="checkbox"
+              checked={draft.totalsOverride ?? false}
+              onChange={(e) => onUpdateMeta({ totalsOverride: e.target.checked || undefined })}
+            />
+            Mark final anyway
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+// @vitest-environment jsdom
+import { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import type { Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Item, ReceiptDraft } from '../types';
+import ReceiptDraftEditor from './ReceiptDraftEditor';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+function draftWith(item: Item): ReceiptDraft {
+  return {
+    currency: 'USD',
+    taxTotal: 0,
+    people: [{ id: 'alice', name: 'Alice' }, { id: 'bob', name: 'Bob' }],
+    items: [item]
+  };
+}
+
+function button(container: HTMLElement, label: string): HTMLButtonElement {
+  const found = Array.from(container.querySelectorAll('button')).find(b => b.textContent === label);
+  if (!found) throw new Error(`No "${label}" button`);
+  return found;
+}
+
+describe('ReceiptDraftEditor item rows', () => {
+  let container: HTMLDivElement;
+  let root: Root;
+  const onUpdateItem = vi.fn();
+
+  const render = (draft: ReceiptDraft) => act(() => {
+    root.render(
+      <ReceiptDraftEditor
+        draft={draft}
+        payerRules={[]}
+        onApplyRules={() => {}}
+        onAddItem={() => {}}
+        onUpdateItem={onUpdateItem}
+        onRemoveItem={() => {}}
+        onSplitItem={() => {}}
+        onMergeItems={() => {}}
+        onUpdateTax={() => {}}
+        onAddCharge={() => {}}
+        onUpdateCharge={() => {}}
+        onRemoveCharge={() => {}}
+        onAddDiscount={() => {}}
+        onUpdateDiscount={() => {}}
+        onRemoveDiscount={() => {}}
+        onUpdateMeta={() => {}}
+      />
+    );
+  });
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+    onUpdateItem.mockClear();
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    container.remove();
+  });
+
+  it('edits the item as it is now, not as it was when the row mounted', () => {
+    const edited: Item = { id: 'item_1', name: 'Fries', price: 6, payers: ['alice', 'bob'] };
+    render(draftWith(edited));
+    // The edit is undone: the same row now holds the earlier item
+    render(draftWith({ ...edited, payers: ['alice'] }));
+
+    act(() => button(container, 'Edit').click());
+    act(() => button(container, 'Save').click());
+
+    expect(onUpdateItem).toHaveBeenCalledWith(expect.objectContaining({ id: 'item_1', payers: ['alice'] }));
+  });
+
+  it('keeps payers a rule filled in when saving other changes', () => {
+    const unassigned: Item = { id: 'item_1', name: 'Beer', price: 8, payers: [] };
+    render(draftWith(unassigned));
+    render(draftWith({
+      ...unassigned,
+      payers: ['bob'],
+      assignedBy: { ruleId: 'rule_1', ruleName: 'Drinks' }
+    }));
+
+    act(() => button(container, 'Edit').click());
+    act(() => button(container, 'Save').click());
+
+    expect(onUpdateItem).toHaveBeenCalledWith(expect.objectContaining({
+      payers: ['bob'],
+      assignedBy: { ruleId: 'rule_1', ruleName: 'Drinks' }
+    }));
+  });
+});
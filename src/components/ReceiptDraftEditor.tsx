@@ -1,58 +1,172 @@
 import { useState } from 'react';
-import type { ReceiptDraft, Item, Person } from '../types';
+import type { ReceiptDraft, Item, Person, Charge, Discount, PayerRule, TotalsReconciliation } from '../types';
+import type { DiagnosticTarget } from '../diagnostics';
+import {
+  hasUnitClaims,
+  isTaxExempt,
+  resolveChargeAmount,
+  resolveDiscountAmounts,
+  resolveTaxRate,
+  roundingPolicy
+} from '../calculator';
+import { currencySymbol, formatMoney, minorUnit, roundMoney } from '../currency';
+import { mergeBlocker } from '../itemSplit';
+import type { SplitPart } from '../itemSplit';
+import { applyPayerRules } from '../rules';
+import ChargesEditor from './ChargesEditor';
+import DiscountsEditor, { DiscountFields } from './DiscountsEditor';
+import ItemSplitEditor from './ItemSplitEditor';
 import PayerSelector from './PayerSelector';
+import PaymentsEditor from './PaymentsEditor';
+import PrintedTotalsEditor from './PrintedTotalsEditor';
+import RoundingSettingsEditor from './RoundingSettingsEditor';
+import SettlementCurrencyEditor from './SettlementCurrencyEditor';
+import TaxSettingsEditor from './TaxSettingsEditor';
+import UnitClaimSelector from './UnitClaimSelector';
 
 interface ReceiptDraftEditorProps {
   draft: ReceiptDraft;
+  computedTax?: number; // tax derived from item rates, when taxMode is 'rates'
+  reconciliation?: TotalsReconciliation; // against the printed subtotal and total
+  highlight?: DiagnosticTarget | null; // row a clicked diagnostic points at
   onAddItem: (item: Item) => void;
   onUpdateItem: (item: Item) => void;
   onRemoveItem: (itemId: string) => void;
+  onSplitItem: (itemId: string, parts: SplitPart[]) => void;
+  onMergeItems: (itemIds: string[]) => void;
+  payerRules: PayerRule[];
+  onApplyRules: () => void;
   onUpdateTax: (tax: number) => void;
+  onAddCharge: (charge: Charge) => void;
+  onUpdateCharge: (charge: Charge) => void;
+  onRemoveCharge: (chargeId: string) => void;
+  onAddDiscount: (discount: Discount) => void;
+  onUpdateDiscount: (discount: Discount) => void;
+  onRemoveDiscount: (discountId: string) => void;
   onUpdateMeta: (meta: Partial<ReceiptDraft>) => void;
 }
 
+const emptyNewItem = {
+  name: '',
+  quantity: '1',
+  unitPrice: '',
+  price: '',
+  category: '',
+  payers: [] as string[],
+  weights: {} as Record<string, number>,
+  unitClaims: {} as Record<string, number>,
+  byUnits: false
+};
+
 export default function ReceiptDraftEditor({
   draft,
+  computedTax,
+  reconciliation,
+  highlight,
   onAddItem,
   onUpdateItem,
   onRemoveItem,
+  onSplitItem,
+  onMergeItems,
+  payerRules,
+  onApplyRules,
   onUpdateTax,
+  onAddCharge,
+  onUpdateCharge,
+  onRemoveCharge,
+  onAddDiscount,
+  onUpdateDiscount,
+  onRemoveDiscount,
   onUpdateMeta
 }: ReceiptDraftEditorProps) {
-  const [newItem, setNewItem] = useState({
-    name: '',
-    price: '',
-    category: '',
-    payers: [] as string[]
-  });
+  const [newItem, setNewItem] = useState(emptyNewItem);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const newQuantity = parseFloat(newItem.quantity) || 1;
+
+  // Keep the line total in step with quantity × unit price while both are filled in
+  const updateNewPricing = (changes: { quantity?: string; unitPrice?: string }) => {
+    const next = { ...newItem, ...changes };
+    const quantity = parseFloat(next.quantity);
+    const unitPrice = parseFloat(next.unitPrice);
+    if (!Number.isNaN(quantity) && !Number.isNaN(unitPrice)) {
+      next.price = roundMoney(quantity * unitPrice, draft.currency).toString();
+    }
+    setNewItem(next);
+  };
 
   const handleAddItem = () => {
     if (!newItem.name.trim() || !newItem.price) return;
 
+    const useClaims = newItem.byUnits && Object.keys(newItem.unitClaims).length > 0;
+    const unitPrice = parseFloat(newItem.unitPrice);
     const item: Item = {
       id: `item_${Date.now()}`,
       name: newItem.name.trim(),
       price: parseFloat(newItem.price),
+      quantity: newQuantity !== 1 ? newQuantity : undefined,
+      unitPrice: Number.isNaN(unitPrice) ? undefined : unitPrice,
       category: newItem.category || undefined,
-      payers: newItem.payers
+      payers: useClaims ? Object.keys(newItem.unitClaims) : newItem.payers,
+      weights: !useClaims && Object.keys(newItem.weights).length > 0 ? newItem.weights : undefined,
+      unitClaims: useClaims ? newItem.unitClaims : undefined
     };
 
     onAddItem(item);
-    setNewItem({
-      name: '',
-      price: '',
-      category: '',
-      payers: []
-    });
+    setNewItem(emptyNewItem);
   };
 
+  const newItemHasPayers = newItem.byUnits
+    ? Object.keys(newItem.unitClaims).length > 0
+    : newItem.payers.length > 0;
+
+  const currency = draft.currency;
+  const step = minorUnit(currency);
+  const { method: roundingMethod } = roundingPolicy(draft);
+  const ratesMode = draft.taxMode === 'rates';
+  const receiptTax = ratesMode ? computedTax ?? 0 : draft.taxTotal;
   const receiptSubtotal = draft.items.reduce((sum, item) => sum + item.price, 0);
-  const receiptGrand = receiptSubtotal + draft.taxTotal;
+  // With tax-inclusive prices the item total already contains the tax
+  const preTaxSubtotal = draft.pricesIncludeTax ? receiptSubtotal - receiptTax : receiptSubtotal;
+  const chargesTotal = (draft.charges ?? [])
+    .reduce((sum, charge) => sum + resolveChargeAmount(charge, preTaxSubtotal, receiptTax, currency, roundingMethod), 0);
+  const discountAmounts = resolveDiscountAmounts(draft);
+  const discountTotal = Array.from(discountAmounts.values()).reduce((sum, amount) => sum + amount, 0);
+  const receiptGrand = preTaxSubtotal - discountTotal + receiptTax + chargesTotal;
+
+  // Lines ticked for merging, in receipt order
+  const selectedItems = draft.items.filter(item => selectedIds.includes(item.id));
+  const mergeProblem = mergeBlocker(selectedItems);
+
+  const toggleSelected = (itemId: string) => {
+    setSelectedIds(selectedIds.includes(itemId)
+      ? selectedIds.filter(id => id !== itemId)
+      : [...selectedIds, itemId]);
+  };
+
+  const handleMerge = () => {
+    if (mergeProblem) return;
+    onMergeItems(selectedItems.map(item => item.id));
+    setSelectedIds([]);
+  };
+
+  const handleApplyRules = () => {
+    if (applyPayerRules(draft, payerRules).assigned === 0) {
+      alert('No payer rule matched an unassigned item.');
+      return;
+    }
+    onApplyRules();
+  };
+
+  const taxLabel = (item: Item) => {
+    if (isTaxExempt(item, draft)) return 'Exempt';
+    return ratesMode ? `${resolveTaxRate(item, draft)}%` : 'Taxed';
+  };
 
   return (
     <div className="receipt-draft-editor">
       <h2>Receipt Details</h2>
-      
+
       <div className="receipt-meta">
         <div className="meta-row">
           <input
@@ -66,12 +180,30 @@ export default function ReceiptDraftEditor({
             value={draft.purchasedAt || ''}
             onChange={(e) => onUpdateMeta({ purchasedAt: e.target.value })}
           />
+          <input
+            type="text"
+            className="currency-input"
+            placeholder="Currency"
+            maxLength={3}
+            title={`Currency (${currencySymbol(currency)})`}
+            value={currency}
+            onChange={(e) => onUpdateMeta({ currency: e.target.value.toUpperCase() })}
+          />
         </div>
       </div>
 
       <div className="items-section">
-        <h3>Items</h3>
-        
+        <div className="items-header">
+          <h3>Items</h3>
+          <button
+            onClick={handleApplyRules}
+            disabled={payerRules.length === 0 || draft.items.length === 0}
+            title="Fill in payers for unassigned items from your payer rules"
+          >
+            Apply Payer Rules
+          </button>
+        </div>
+
         <div className="add-item">
           <div className="item-form">
             <input
@@ -82,9 +214,25 @@ export default function ReceiptDraftEditor({
             />
             <input
               type="number"
-              placeholder="Price"
+              placeholder="Qty"
+              min="0"
+              step="1"
+              value={newItem.quantity}
+              onChange={(e) => updateNewPricing({ quantity: e.target.value })}
+            />
+            <input
+              type="number"
+              placeholder="Unit price"
+              min="0"
+              step={step}
+              value={newItem.unitPrice}
+              onChange={(e) => updateNewPricing({ unitPrice: e.target.value })}
+            />
+            <input
+              type="number"
+              placeholder="Total"
               min="0"
-              step="0.01"
+              step={step}
               value={newItem.price}
               onChange={(e) => setNewItem({ ...newItem, price: e.target.value })}
               required
@@ -96,23 +244,54 @@ export default function ReceiptDraftEditor({
               onChange={(e) => setNewItem({ ...newItem, category: e.target.value })}
             />
           </div>
-          
+
           <div className="payer-selection">
-            <PayerSelector
-              people={draft.people}
-              selectedPayers={newItem.payers}
-              onChange={(payers) => setNewItem({ ...newItem, payers })}
-            />
+            {newQuantity > 1 && (
+              <label className="claim-toggle">
+                <input
+                  type="checkbox"
+                  checked={newItem.byUnits}
+                  onChange={(e) => setNewItem({ ...newItem, byUnits: e.target.checked })}
+                />
+                Split by units claimed
+              </label>
+            )}
+            {newItem.byUnits && newQuantity > 1 ? (
+              <UnitClaimSelector
+                people={draft.people}
+                quantity={newQuantity}
+                claims={newItem.unitClaims}
+                onChange={(unitClaims) => setNewItem({ ...newItem, unitClaims })}
+              />
+            ) : (
+              <PayerSelector
+                people={draft.people}
+                selectedPayers={newItem.payers}
+                weights={newItem.weights}
+                onChange={(payers, weights) => setNewItem({ ...newItem, payers, weights })}
+              />
+            )}
           </div>
-          
-          <button 
-            onClick={handleAddItem} 
-            disabled={!newItem.name.trim() || !newItem.price || newItem.payers.length === 0}
+
+          <button
+            onClick={handleAddItem}
+            disabled={!newItem.name.trim() || !newItem.price || !newItemHasPayers}
           >
             Add Item
           </button>
         </div>
 
+        {selectedItems.length > 0 && (
+          <div className="merge-toolbar">
+            <span>{selectedItems.length} selected</span>
+            <button onClick={handleMerge} disabled={!!mergeProblem} title={mergeProblem}>
+              Merge Lines
+            </button>
+            <button onClick={() => setSelectedIds([])}>Clear</button>
+            {mergeProblem && selectedItems.length > 1 && <small>{mergeProblem}</small>}
+          </div>
+        )}
+
         <div className="items-list">
           {draft.items.length === 0 ? (
             <p className="empty-state">No items added yet</p>
@@ -120,9 +299,13 @@ export default function ReceiptDraftEditor({
             <table className="items-table">
               <thead>
                 <tr>
+                  <th aria-label="Select"></th>
                   <th>Name</th>
-                  <th>Price</th>
+                  <th>Qty</th>
+                  <th>Unit</th>
+                  <th>Total</th>
                   <th>Category</th>
+                  <th>Tax</th>
                   <th>Payers</th>
                   <th>Actions</th>
                 </tr>
@@ -133,8 +316,21 @@ export default function ReceiptDraftEditor({
                     key={item.id}
                     item={item}
                     people={draft.people}
+                    currency={currency}
+                    taxLabel={taxLabel(item)}
+                    ratesMode={ratesMode}
+                    selected={selectedIds.includes(item.id)}
+                    onToggleSelected={() => toggleSelected(item.id)}
+                    highlighted={item.id === highlight?.itemId}
+                    highlightedDiscountId={highlight?.discountId}
+                    discounts={(draft.discounts ?? []).filter(d => d.itemId === item.id)}
+                    discountAmounts={discountAmounts}
                     onUpdate={onUpdateItem}
                     onRemove={onRemoveItem}
+                    onSplit={(parts) => onSplitItem(item.id, parts)}
+                    onAddDiscount={onAddDiscount}
+                    onUpdateDiscount={onUpdateDiscount}
+                    onRemoveDiscount={onRemoveDiscount}
                   />
                 ))}
               </tbody>
@@ -145,23 +341,76 @@ export default function ReceiptDraftEditor({
 
       <div className="receipt-totals">
         <div className="totals-row">
-          <span>Subtotal:</span>
-          <span>${receiptSubtotal.toFixed(2)}</span>
+          <span>{draft.pricesIncludeTax ? 'Subtotal (incl. tax):' : 'Subtotal:'}</span>
+          <span>{formatMoney(receiptSubtotal, currency)}</span>
         </div>
+        {discountTotal > 0 && (
+          <div className="totals-row">
+            <span>Discounts:</span>
+            <span>−{formatMoney(discountTotal, currency)}</span>
+          </div>
+        )}
+        <DiscountsEditor
+          discounts={(draft.discounts ?? []).filter(d => !d.itemId)}
+          amounts={discountAmounts}
+          people={draft.people}
+          currency={currency}
+          highlightedId={highlight?.discountId}
+          onAddDiscount={onAddDiscount}
+          onUpdateDiscount={onUpdateDiscount}
+          onRemoveDiscount={onRemoveDiscount}
+        />
+        <TaxSettingsEditor draft={draft} onUpdateMeta={onUpdateMeta} />
+        {ratesMode && (
+          <div className="totals-row">
+            <span>{draft.pricesIncludeTax ? 'Included tax (from rates):' : 'Tax (from rates):'}</span>
+            <span>{formatMoney(receiptTax, currency)}</span>
+          </div>
+        )}
         <div className="totals-row">
-          <span>Tax:</span>
+          <span>
+            {ratesMode ? 'Printed tax (optional):' : draft.pricesIncludeTax ? 'Included tax:' : 'Tax:'}
+          </span>
           <input
             type="number"
             min="0"
-            step="0.01"
+            step={step}
             value={draft.taxTotal}
             onChange={(e) => onUpdateTax(parseFloat(e.target.value) || 0)}
           />
         </div>
+        <ChargesEditor
+          charges={draft.charges ?? []}
+          people={draft.people}
+          subtotal={preTaxSubtotal}
+          tax={receiptTax}
+          currency={currency}
+          roundingMethod={roundingMethod}
+          highlightedId={highlight?.chargeId}
+          onAddCharge={onAddCharge}
+          onUpdateCharge={onUpdateCharge}
+          onRemoveCharge={onRemoveCharge}
+        />
         <div className="totals-row total-grand">
           <span>Grand Total:</span>
-          <span>${receiptGrand.toFixed(2)}</span>
+          <span>{formatMoney(receiptGrand, currency)}</span>
         </div>
+        <PrintedTotalsEditor
+          draft={draft}
+          reconciliation={reconciliation}
+          onUpdateMeta={onUpdateMeta}
+          onUpdateItem={onUpdateItem}
+          onRemoveItem={onRemoveItem}
+        />
+        <PaymentsEditor
+          payments={draft.payments ?? []}
+          people={draft.people}
+          receiptGrand={receiptGrand}
+          currency={currency}
+          onChange={(payments) => onUpdateMeta({ payments })}
+        />
+        <SettlementCurrencyEditor draft={draft} onUpdateMeta={onUpdateMeta} />
+        <RoundingSettingsEditor draft={draft} onUpdateMeta={onUpdateMeta} />
       </div>
     </div>
   );
@@ -170,33 +419,103 @@ export default function ReceiptDraftEditor({
 interface ItemRowProps {
   item: Item;
   people: Person[];
+  currency: string;
+  taxLabel: string;
+  ratesMode: boolean;
+  selected: boolean; // ticked for merging
+  onToggleSelected: () => void;
+  highlighted: boolean;
+  highlightedDiscountId?: string;
+  discounts: Discount[];
+  discountAmounts: Map<string, number>;
   onUpdate: (item: Item) => void;
   onRemove: (itemId: string) => void;
+  onSplit: (parts: SplitPart[]) => void;
+  onAddDiscount: (discount: Discount) => void;
+  onUpdateDiscount: (discount: Discount) => void;
+  onRemoveDiscount: (discountId: string) => void;
 }
 
-function ItemRow({ item, people, onUpdate, onRemove }: ItemRowProps) {
+function ItemRow({
+  item,
+  people,
+  currency,
+  taxLabel,
+  ratesMode,
+  selected,
+  onToggleSelected,
+  highlighted,
+  highlightedDiscountId,
+  discounts,
+  discountAmounts,
+  onUpdate,
+  onRemove,
+  onSplit,
+  onAddDiscount,
+  onUpdateDiscount,
+  onRemoveDiscount
+}: ItemRowProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editItem, setEditItem] = useState(item);
+  const [byUnits, setByUnits] = useState(hasUnitClaims(item));
+  const [isSplitting, setIsSplitting] = useState(false);
+
+  const editQuantity = editItem.quantity ?? 1;
+  const step = minorUnit(currency);
 
   const handleSave = () => {
-    onUpdate(editItem);
+    const useClaims = byUnits && hasUnitClaims(editItem);
+    const saved = {
+      ...editItem,
+      payers: useClaims ? Object.keys(editItem.unitClaims ?? {}) : editItem.payers,
+      unitClaims: useClaims ? editItem.unitClaims : undefined
+    };
+    // Payers changed by hand are no longer the rule's
+    const samePayers = JSON.stringify([saved.payers, saved.weights, saved.unitClaims]) ===
+      JSON.stringify([item.payers, item.weights, item.unitClaims]);
+    onUpdate(samePayers ? saved : { ...saved, assignedBy: undefined });
     setIsEditing(false);
   };
 
+  // Start from the item as it is now; it may have changed since the row mounted
+  const handleStartEdit = () => {
+    setEditItem(item);
+    setByUnits(hasUnitClaims(item));
+    setIsEditing(true);
+  };
+
   const handleCancel = () => {
     setEditItem(item);
+    setByUnits(hasUnitClaims(item));
     setIsEditing(false);
   };
 
+  const updatePricing = (changes: Partial<Pick<Item, 'quantity' | 'unitPrice'>>) => {
+    const next = { ...editItem, ...changes };
+    if (next.unitPrice !== undefined) {
+      next.price = roundMoney((next.quantity ?? 1) * next.unitPrice, currency);
+    }
+    setEditItem(next);
+  };
+
   const payerNames = item.payers
-    .map(payerId => people.find(p => p.id === payerId)?.name || payerId)
+    .map(payerId => {
+      const name = people.find(p => p.id === payerId)?.name || payerId;
+      const units = item.unitClaims?.[payerId];
+      if (units !== undefined) {
+        return `${name} (${units})`;
+      }
+      const weight = item.weights?.[payerId];
+      return weight !== undefined && weight !== 1 ? `${name} ×${weight}` : name;
+    })
     .join(', ');
-  
+
   const hasNoPayers = item.payers.length === 0;
 
   if (isEditing) {
     return (
-      <tr className="editing">
+      <tr className={`editing ${highlighted ? 'diagnostic-highlight' : ''}`}>
+        <td></td>
         <td>
           <input
             type="text"
@@ -208,7 +527,27 @@ function ItemRow({ item, people, onUpdate, onRemove }: ItemRowProps) {
           <input
             type="number"
             min="0"
-            step="0.01"
+            step="1"
+            value={editQuantity}
+            onChange={(e) => updatePricing({ quantity: parseFloat(e.target.value) || 0 })}
+          />
+        </td>
+        <td>
+          <input
+            type="number"
+            min="0"
+            step={step}
+            value={editItem.unitPrice ?? ''}
+            onChange={(e) => updatePricing({
+              unitPrice: e.target.value === '' ? undefined : parseFloat(e.target.value) || 0
+            })}
+          />
+        </td>
+        <td>
+          <input
+            type="number"
+            min="0"
+            step={step}
             value={editItem.price}
             onChange={(e) => setEditItem({ ...editItem, price: parseFloat(e.target.value) || 0 })}
           />
@@ -221,11 +560,58 @@ function ItemRow({ item, people, onUpdate, onRemove }: ItemRowProps) {
           />
         </td>
         <td>
-          <PayerSelector
-            people={people}
-            selectedPayers={editItem.payers}
-            onChange={(payers) => setEditItem({ ...editItem, payers })}
-          />
+          <label className="tax-exempt-toggle">
+            <input
+              type="checkbox"
+              checked={editItem.taxExempt ?? false}
+              onChange={(e) => setEditItem({ ...editItem, taxExempt: e.target.checked || undefined })}
+            />
+            Exempt
+          </label>
+          {ratesMode && !editItem.taxExempt && (
+            <input
+              type="number"
+              min="0"
+              step="0.125"
+              placeholder="Rate %"
+              value={editItem.taxRate ?? ''}
+              onChange={(e) => setEditItem({
+                ...editItem,
+                taxRate: e.target.value === '' ? undefined : parseFloat(e.target.value) || 0
+              })}
+            />
+          )}
+        </td>
+        <td>
+          {editQuantity > 1 && (
+            <label className="claim-toggle">
+              <input
+                type="checkbox"
+                checked={byUnits}
+                onChange={(e) => setByUnits(e.target.checked)}
+              />
+              Split by units claimed
+            </label>
+          )}
+          {byUnits && editQuantity > 1 ? (
+            <UnitClaimSelector
+              people={people}
+              quantity={editQuantity}
+              claims={editItem.unitClaims ?? {}}
+              onChange={(unitClaims) => setEditItem({ ...editItem, unitClaims })}
+            />
+          ) : (
+            <PayerSelector
+              people={people}
+              selectedPayers={editItem.payers}
+              weights={editItem.weights}
+              onChange={(payers, weights) => setEditItem({
+                ...editItem,
+                payers,
+                weights: Object.keys(weights).length > 0 ? weights : undefined
+              })}
+            />
+          )}
         </td>
         <td>
           <button onClick={handleSave}>Save</button>
@@ -235,24 +621,81 @@ function ItemRow({ item, people, onUpdate, onRemove }: ItemRowProps) {
     );
   }
 
+  const handleAddDiscount = () => {
+    onAddDiscount({
+      id: `discount_${Date.now()}`,
+      name: 'Savings',
+      amount: 0,
+      itemId: item.id,
+      allocation: 'proportional',
+      taxBasis: 'post-discount'
+    });
+  };
+
   return (
-    <tr className={hasNoPayers ? 'no-payers' : ''}>
-      <td>{item.name}</td>
-      <td>${item.price.toFixed(2)}</td>
-      <td>{item.category || '-'}</td>
-      <td className={hasNoPayers ? 'needs-assignment' : ''}>
-        {payerNames || (
-          <span className="no-payers-text">
-            <strong>No payers assigned</strong>
-          </span>
-        )}
-      </td>
-      <td>
-        <button onClick={() => setIsEditing(true)}>
-          {hasNoPayers ? 'Assign Payers' : 'Edit'}
-        </button>
-        <button onClick={() => onRemove(item.id)}>Remove</button>
-      </td>
-    </tr>
+    <>
+      <tr className={`${hasNoPayers ? 'no-payers' : ''} ${highlighted ? 'diagnostic-highlight' : ''}`}>
+        <td>
+          <input type="checkbox" checked={selected} onChange={onToggleSelected} title="Select to merge" />
+        </td>
+        <td>{item.name}</td>
+        <td>{item.quantity ?? 1}</td>
+        <td>{item.unitPrice !== undefined ? formatMoney(item.unitPrice, currency) : '-'}</td>
+        <td>{formatMoney(item.price, currency)}</td>
+        <td>{item.category || '-'}</td>
+        <td>{taxLabel}</td>
+        <td className={hasNoPayers ? 'needs-assignment' : ''}>
+          {payerNames || (
+            <span className="no-payers-text">
+              <strong>No payers assigned</strong>
+            </span>
+          )}
+          {item.assignedBy && (
+            <small className="rule-badge" title="Payers filled in by a payer rule">
+              by rule "{item.assignedBy.ruleName}"
+            </small>
+          )}
+        </td>
+        <td>
+          <button onClick={handleStartEdit}>
+            {hasNoPayers ? 'Assign Payers' : 'Edit'}
+          </button>
+          <button onClick={handleAddDiscount}>Discount</button>
+          <button onClick={() => setIsSplitting(!isSplitting)}>Split</button>
+          <button onClick={() => onRemove(item.id)}>Remove</button>
+        </td>
+      </tr>
+      {isSplitting && (
+        <tr className="item-split-row">
+          <td colSpan={9}>
+            <ItemSplitEditor
+              item={item}
+              currency={currency}
+              onSplit={(parts) => {
+                onSplit(parts);
+                setIsSplitting(false);
+              }}
+              onCancel={() => setIsSplitting(false)}
+            />
+          </td>
+        </tr>
+      )}
+      {discounts.map((discount) => (
+        <tr
+          key={discount.id}
+          className={`item-discount-row ${discount.id === highlightedDiscountId ? 'diagnostic-highlight' : ''}`}
+        >
+          <td colSpan={9}>
+            <DiscountFields
+              discount={discount}
+              resolvedAmount={discountAmounts.get(discount.id) ?? 0}
+              currency={currency}
+              onUpdate={onUpdateDiscount}
+              onRemove={onRemoveDiscount}
+            />
+          </td>
+        </tr>
+      ))}
+    </>
   );
-}
\ No newline at end of file
+}
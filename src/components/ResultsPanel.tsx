@@ -1,15 +1,62 @@
-import type { CalculationResult, Person, ReceiptDraft } from '../types';
+import { useState } from 'react';
+import type { CalculationResult, Diagnostic, Person, ReceiptDraft } from '../types';
+import { formatMoney, formatMoneyDelta, minorUnit } from '../currency';
+import { serializeDraft } from '../schema';
+import { hasTarget, isFinal } from '../diagnostics';
+import PersonStatement from './PersonStatement';
+import PaymentRequestPanel from './PaymentRequestPanel';
 
 interface ResultsPanelProps {
   result: CalculationResult | null;
-  warnings: string[];
+  diagnostics: Diagnostic[];
+  onSelectDiagnostic: (diagnostic: Diagnostic) => void;
   people: Person[];
   draft: ReceiptDraft;
 }
 
-export default function ResultsPanel({ result, warnings, people, draft }: ResultsPanelProps) {
+const SEVERITY_LABELS = { error: 'Error', warning: 'Warning', info: 'Note' };
+
+export default function ResultsPanel({ result, diagnostics, onSelectDiagnostic, people, draft }: ResultsPanelProps) {
+  const [statementPersonId, setStatementPersonId] = useState<string | null>(null);
+  const money = (n: number) => formatMoney(n, draft.currency);
+  // Tax-inclusive receipts show net amounts with the included tax backed out
+  const labels = draft.pricesIncludeTax
+    ? { subtotal: 'Net', tax: 'VAT', receiptSubtotal: 'Net subtotal', receiptTax: 'VAT (included)' }
+    : { subtotal: 'Subtotal', tax: 'Tax Share', receiptSubtotal: 'Subtotal', receiptTax: 'Tax' };
+  const settlement = result?.settlement;
+  const settlementMoney = (n: number) => formatMoney(n, settlement?.currency ?? draft.currency);
+  const rateNote = settlement
+    ? `1 ${draft.currency} = ${settlement.rate} ${settlement.currency}` +
+      (settlement.rateDate ? ` as of ${settlement.rateDate}` : '') +
+      (settlement.source === 'imported' ? ' (imported)' : ' (entered manually)')
+    : '';
+
+  // Errors block the final breakdown; warnings and notes don't
+  const final = isFinal(diagnostics);
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  const statementBreakdown = result?.perPerson.find(b => b.personId === statementPersonId);
+
+  const settleUp = result?.settleUp;
+  const settleUpMoney = (n: number) => formatMoney(n, settleUp?.currency ?? draft.currency);
+  const personName = (personId: string) => people.find(p => p.id === personId)?.name || personId;
+  const transferLine = (transfer: { from: string; to: string; amount: number }) =>
+    `${personName(transfer.from)} owes ${personName(transfer.to)} ${settleUpMoney(transfer.amount)}`;
+  const unpaid = result && settleUp ? result.receiptGrand - settleUp.paidTotal : 0;
+
+  const roundingPolicyNote = () => {
+    if (!result) return '';
+    const { method, residual, absorberId } = result.rounding;
+    const methodNote = method === 'half-even' ? "Banker's rounding (half to even)" : 'Rounded half up';
+    const absorber = people.find(p => p.id === absorberId) ?? people[0];
+    const residualNote =
+      residual === 'payer' ? `leftover pennies go to ${absorber?.name ?? 'the first person'}` :
+      residual === 'rotate' ? 'leftover pennies rotate through people in order' :
+      'leftover pennies go to the largest remainders';
+    return `${methodNote}; ${residualNote}.`;
+  };
+
   const copyBreakdown = () => {
-    if (!result) return;
+    if (!result || !final) return;
 
     const lines = [
       `Receipt Breakdown - ${draft.storeName || 'Receipt'}`,
@@ -21,21 +68,53 @@ export default function ResultsPanel({ result, warnings, people, draft }: Result
     result.perPerson.forEach(breakdown => {
       const person = people.find(p => p.id === breakdown.personId);
       const name = person?.name || breakdown.personId;
+      const chargeParts = result.receiptCharges.map(charge =>
+        `, ${charge.name} ${money(breakdown.charges[charge.chargeId] ?? 0)}`
+      );
+      const discountPart = result.receiptDiscount > 0
+        ? `, Discount -${money(breakdown.discount)}`
+        : '';
+      const settlementPart = breakdown.settlementTotal !== undefined
+        ? ` (${settlementMoney(breakdown.settlementTotal)})`
+        : '';
       lines.push(
-        `${name}: Subtotal $${breakdown.subtotal.toFixed(2)}, Tax $${breakdown.taxShare.toFixed(2)}, Total $${breakdown.total.toFixed(2)}`
+        `${name}: ${labels.subtotal} ${money(breakdown.subtotal)}${discountPart}, ${labels.tax} ${money(breakdown.taxShare)}${chargeParts.join('')}, Total ${money(breakdown.total)}${settlementPart}`
       );
     });
 
     lines.push(
       '',
-      `Receipt Total: $${result.receiptGrand.toFixed(2)}`
+      `Receipt Total: ${money(result.receiptGrand)}`
     );
+    if (settlement) {
+      lines.push(`Settlement Total: ${settlementMoney(settlement.receiptGrand)}`, `Exchange rate: ${rateNote}`);
+    }
 
+    if (settleUp) {
+      lines.push('', 'Settle up:');
+      settleUp.balances
+        .filter(balance => balance.paid > 0)
+        .forEach(balance => lines.push(`${personName(balance.personId)} paid ${settleUpMoney(balance.paid)}`));
+      if (settleUp.transfers.length > 0) {
+        settleUp.transfers.forEach(transfer => lines.push(transferLine(transfer)));
+      } else {
+        lines.push('Everyone is square.');
+      }
+    }
+
+    lines.push('', `Rounding: ${roundingPolicyNote()}`);
     if (result.rounding.residualApplied.length > 0) {
-      lines.push('', 'Rounding adjustments:');
+      lines.push('Rounding adjustments:');
       result.rounding.residualApplied.forEach(adj => {
         const person = people.find(p => p.id === adj.personId);
-        lines.push(`${person?.name || adj.personId}: ${adj.delta > 0 ? '+' : ''}$${adj.delta.toFixed(2)}`);
+        lines.push(`${person?.name || adj.personId}: ${formatMoneyDelta(adj.delta, draft.currency)}`);
+      });
+    }
+    if (settlement && settlement.residualApplied.length > 0) {
+      lines.push(`Rounding adjustments (${settlement.currency}):`);
+      settlement.residualApplied.forEach(adj => {
+        const person = people.find(p => p.id === adj.personId);
+        lines.push(`${person?.name || adj.personId}: ${formatMoneyDelta(adj.delta, settlement.currency)}`);
       });
     }
 
@@ -43,12 +122,8 @@ export default function ResultsPanel({ result, warnings, people, draft }: Result
   };
 
   const exportJSON = () => {
-    const exportData = {
-      ...draft,
-      calculationResult: result,
-      exportedAt: new Date().toISOString()
-    };
-    
+    const exportData = serializeDraft(draft, result);
+
     const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -64,13 +139,25 @@ export default function ResultsPanel({ result, warnings, people, draft }: Result
     <div className="results-panel">
       <h2>Results</h2>
       
-      {warnings.length > 0 && (
-        <div className="warnings">
-          <h3>Warnings</h3>
+      {diagnostics.length > 0 && (
+        <div className={`diagnostics ${final ? '' : 'has-errors'}`}>
+          <h3>{final ? 'Warnings' : `Not final: ${errorCount} error${errorCount === 1 ? '' : 's'} to fix`}</h3>
           <ul>
-            {warnings.map((warning, index) => (
-              <li key={index} className="warning">{warning}</li>
-            ))}
+            {diagnostics.map(diagnostic => {
+              const key = [diagnostic.code, diagnostic.itemId, diagnostic.personId, diagnostic.chargeId, diagnostic.discountId].join('|');
+              return (
+                <li key={key} className={`diagnostic diagnostic-${diagnostic.severity}`}>
+                  <span className="diagnostic-severity">{SEVERITY_LABELS[diagnostic.severity]}</span>
+                  {hasTarget(diagnostic) ? (
+                    <button type="button" className="diagnostic-link" onClick={() => onSelectDiagnostic(diagnostic)}>
+                      {diagnostic.message}
+                    </button>
+                  ) : (
+                    <span>{diagnostic.message}</span>
+                  )}
+                </li>
+              );
+            })}
           </ul>
         </div>
       )}
@@ -83,9 +170,14 @@ export default function ResultsPanel({ result, warnings, people, draft }: Result
               <thead>
                 <tr>
                   <th>Person</th>
-                  <th>Subtotal</th>
-                  <th>Tax Share</th>
+                  <th>{labels.subtotal}</th>
+                  {result.receiptDiscount > 0 && <th>Discount</th>}
+                  <th>{labels.tax}</th>
+                  {result.receiptCharges.map(charge => (
+                    <th key={charge.chargeId}>{charge.name}</th>
+                  ))}
                   <th>Total Owed</th>
+                  {settlement && <th>In {settlement.currency}</th>}
                 </tr>
               </thead>
               <tbody>
@@ -93,54 +185,194 @@ export default function ResultsPanel({ result, warnings, people, draft }: Result
                   const person = people.find(p => p.id === breakdown.personId);
                   return (
                     <tr key={breakdown.personId}>
-                      <td className="person-name">{person?.name || breakdown.personId}</td>
-                      <td>${breakdown.subtotal.toFixed(2)}</td>
-                      <td>${breakdown.taxShare.toFixed(2)}</td>
-                      <td className="total-owed">${breakdown.total.toFixed(2)}</td>
+                      <td className="person-name">
+                        <button
+                          type="button"
+                          className="statement-link"
+                          title="Show the itemized statement"
+                          onClick={() => setStatementPersonId(
+                            statementPersonId === breakdown.personId ? null : breakdown.personId
+                          )}
+                        >
+                          {person?.name || breakdown.personId}
+                        </button>
+                      </td>
+                      <td>{money(breakdown.subtotal)}</td>
+                      {result.receiptDiscount > 0 && (
+                        <td>−{money(breakdown.discount)}</td>
+                      )}
+                      <td>{money(breakdown.taxShare)}</td>
+                      {result.receiptCharges.map(charge => (
+                        <td key={charge.chargeId}>
+                          {money(breakdown.charges[charge.chargeId] ?? 0)}
+                        </td>
+                      ))}
+                      <td className="total-owed">{money(breakdown.total)}</td>
+                      {settlement && (
+                        <td className="total-owed">{settlementMoney(breakdown.settlementTotal ?? 0)}</td>
+                      )}
                     </tr>
                   );
                 })}
               </tbody>
             </table>
+            {statementBreakdown && (
+              <PersonStatement
+                breakdown={statementBreakdown}
+                personName={personName(statementBreakdown.personId)}
+                draft={draft}
+                result={result}
+                final={final}
+                onClose={() => setStatementPersonId(null)}
+              />
+            )}
           </div>
 
           <div className="receipt-summary">
             <h3>Receipt Summary</h3>
             <div className="summary-row">
-              <span>Subtotal:</span>
-              <span>${result.receiptSubtotal.toFixed(2)}</span>
+              <span>{labels.receiptSubtotal}:</span>
+              <span>{money(result.receiptSubtotal)}</span>
             </div>
+            {result.receiptDiscount > 0 && (
+              <div className="summary-row">
+                <span>Discounts:</span>
+                <span>−{money(result.receiptDiscount)}</span>
+              </div>
+            )}
             <div className="summary-row">
-              <span>Tax:</span>
-              <span>${result.receiptTax.toFixed(2)}</span>
+              <span>{labels.receiptTax}:</span>
+              <span>{money(result.receiptTax)}</span>
             </div>
+            {result.taxReconciliation && (
+              <div className={`summary-row ${result.taxReconciliation.difference !== 0 ? 'mismatch' : ''}`}>
+                <span>Printed tax:</span>
+                <span>
+                  {money(result.taxReconciliation.printed)}
+                  {result.taxReconciliation.difference !== 0 &&
+                    ` (off by ${formatMoneyDelta(result.taxReconciliation.difference, draft.currency)})`}
+                </span>
+              </div>
+            )}
+            {result.receiptCharges.map(charge => (
+              <div key={charge.chargeId} className="summary-row">
+                <span>{charge.name}:</span>
+                <span>{money(charge.amount)}</span>
+              </div>
+            ))}
             <div className="summary-row total">
               <span>Grand Total:</span>
-              <span>${result.receiptGrand.toFixed(2)}</span>
+              <span>{money(result.receiptGrand)}</span>
             </div>
+            {result.totalsReconciliation?.total && (
+              <div className={`summary-row ${result.totalsReconciliation.total.difference !== 0 ? 'mismatch' : ''}`}>
+                <span>Printed total:</span>
+                <span>
+                  {money(result.totalsReconciliation.total.printed)}
+                  {result.totalsReconciliation.total.difference !== 0 &&
+                    ` (off by ${formatMoneyDelta(result.totalsReconciliation.total.difference, draft.currency)})`}
+                </span>
+              </div>
+            )}
+            {settlement && (
+              <>
+                <div className="summary-row total">
+                  <span>Settlement Total:</span>
+                  <span>{settlementMoney(settlement.receiptGrand)}</span>
+                </div>
+                <p className="settlement-note">{rateNote}</p>
+              </>
+            )}
           </div>
 
-          {result.rounding.residualApplied.length > 0 && (
-            <div className="rounding-adjustments">
-              <h4>Rounding Adjustments</h4>
-              <p className="rounding-note">
-                Small adjustments were made to ensure totals match exactly:
-              </p>
-              <ul>
-                {result.rounding.residualApplied.map((adj, index) => {
-                  const person = people.find(p => p.id === adj.personId);
-                  return (
+          {settleUp && (
+            <div className="settle-up">
+              <h3>Settle Up</h3>
+              <table className="breakdown-table">
+                <thead>
+                  <tr>
+                    <th>Person</th>
+                    <th>Paid</th>
+                    <th>Share</th>
+                    <th>Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {settleUp.balances.map(balance => (
+                    <tr key={balance.personId}>
+                      <td className="person-name">{personName(balance.personId)}</td>
+                      <td>{settleUpMoney(balance.paid)}</td>
+                      <td>{settleUpMoney(balance.owes)}</td>
+                      <td className={balance.net < 0 ? 'balance-owes' : 'balance-owed'}>
+                        {formatMoneyDelta(balance.net, settleUp.currency)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {Math.abs(unpaid) >= minorUnit(draft.currency) / 2 && (
+                <p className="settle-up-note">
+                  Payments add up to {money(settleUp.paidTotal)}, not the {money(result.receiptGrand)} total.
+                </p>
+              )}
+              {settleUp.transfers.length > 0 ? (
+                <ul className="transfers">
+                  {settleUp.transfers.map((transfer, index) => (
                     <li key={index}>
-                      {person?.name || adj.personId}: {adj.delta > 0 ? '+' : ''}${adj.delta.toFixed(2)}
+                      {transferLine(transfer)}
+                      <PaymentRequestPanel
+                        payerName={personName(transfer.from)}
+                        payee={people.find(p => p.id === transfer.to)}
+                        amount={transfer.amount}
+                        currency={settleUp.currency}
+                        receiptTitle={draft.title || draft.storeName || 'the receipt'}
+                      />
                     </li>
-                  );
-                })}
-              </ul>
+                  ))}
+                </ul>
+              ) : (
+                <p className="settle-up-note">Everyone is square.</p>
+              )}
             </div>
           )}
 
+          <div className="rounding-adjustments">
+            <h4>Rounding</h4>
+            <p className="rounding-note">{roundingPolicyNote()}</p>
+            {(result.rounding.residualApplied.length > 0 || (settlement?.residualApplied.length ?? 0) > 0) && (
+              <>
+                <p className="rounding-note">
+                  Small adjustments were made to ensure totals match exactly:
+                </p>
+                <ul>
+                  {result.rounding.residualApplied.map((adj, index) => {
+                    const person = people.find(p => p.id === adj.personId);
+                    return (
+                      <li key={index}>
+                        {person?.name || adj.personId}: {formatMoneyDelta(adj.delta, draft.currency)}
+                      </li>
+                    );
+                  })}
+                  {settlement?.residualApplied.map((adj, index) => {
+                    const person = people.find(p => p.id === adj.personId);
+                    return (
+                      <li key={`settlement-${index}`}>
+                        {person?.name || adj.personId}: {formatMoneyDelta(adj.delta, settlement.currency)}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </>
+            )}
+          </div>
+
           <div className="result-actions">
-            <button onClick={copyBreakdown} className="copy-button">
+            <button
+              onClick={copyBreakdown}
+              className="copy-button"
+              disabled={!final}
+              title={final ? undefined : 'Fix the errors above before sharing the breakdown'}
+            >
               Copy Breakdown
             </button>
             <button onClick={exportJSON} className="export-button">
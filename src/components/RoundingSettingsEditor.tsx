@@ -0,0 +1,68 @@
+import type { ReceiptDraft, ResidualStrategy, RoundingMethod } from '../types';
+import { roundingPolicy } from '../calculator';
+
+interface RoundingSettingsEditorProps {
+  draft: ReceiptDraft;
+  onUpdateMeta: (meta: Partial<ReceiptDraft>) => void;
+}
+
+const ROUNDING_METHOD_LABELS: Record<RoundingMethod, string> = {
+  'half-up': 'Round half up',
+  'half-even': "Banker's rounding (half to even)"
+};
+
+const RESIDUAL_STRATEGY_LABELS: Record<ResidualStrategy, string> = {
+  'largest-remainder': 'Largest remainders',
+  payer: 'One person absorbs them',
+  rotate: 'Rotate in person order'
+};
+
+export default function RoundingSettingsEditor({ draft, onUpdateMeta }: RoundingSettingsEditorProps) {
+  const policy = roundingPolicy(draft);
+
+  return (
+    <div className="rounding-settings">
+      <div className="totals-row">
+        <span>Rounding:</span>
+        <select
+          value={policy.method}
+          onChange={(e) => onUpdateMeta({
+            rounding: { ...policy, method: e.target.value as RoundingMethod }
+          })}
+        >
+          {Object.entries(ROUNDING_METHOD_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="totals-row">
+        <span>Leftover pennies:</span>
+        <select
+          value={policy.residual}
+          onChange={(e) => onUpdateMeta({
+            rounding: { ...policy, residual: e.target.value as ResidualStrategy }
+          })}
+        >
+          {Object.entries(RESIDUAL_STRATEGY_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+      {policy.residual === 'payer' && (
+        <div className="totals-row">
+          <span>Absorbed by:</span>
+          <select
+            value={policy.absorberId ?? draft.payments?.[0]?.personId ?? draft.people[0]?.id ?? ''}
+            onChange={(e) => onUpdateMeta({
+              rounding: { ...policy, absorberId: e.target.value || undefined }
+            })}
+          >
+            {draft.people.map(person => (
+              <option key={person.id} value={person.id}>{person.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useEffect, useMemo, useState } from 'react';
+import { compute } from '../calculator';
+import { formatMoney } from '../currency';
+import {
+  deleteSavedReceipt,
+  listSavedReceipts,
+  matchesSearch,
+  saveReceipt,
+  savedReceiptName
+} from '../storage';
+import type { SavedReceipt, SkippedReceipt } from '../storage';
+
+interface SavedReceiptsPanelProps {
+  activeReceiptId: string;
+  lastSavedAt: string | null;
+  storageError: string | null;
+  onOpen: (record: SavedReceipt) => void;
+  onRenameActive: (title: string) => void;
+}
+
+export default function SavedReceiptsPanel({
+  activeReceiptId,
+  lastSavedAt,
+  storageError,
+  onOpen,
+  onRenameActive
+}: SavedReceiptsPanelProps) {
+  const [saved, setSaved] = useState<SavedReceipt[]>([]);
+  const [skipped, setSkipped] = useState<SkippedReceipt[]>([]);
+  const [search, setSearch] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => {
+    listSavedReceipts()
+      .then(({ receipts, skipped }) => {
+        setSaved(receipts);
+        setSkipped(skipped);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not read saved receipts'));
+  };
+
+  // Reload whenever autosave writes something new
+  useEffect(refresh, [lastSavedAt]);
+
+  const runAndRefresh = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not update saved receipts');
+    }
+    refresh();
+  };
+
+  const handleRename = async (record: SavedReceipt) => {
+    const title = editName.trim();
+    setEditingId(null);
+    if (!title) return;
+
+    // The open receipt is renamed through the editor so autosave doesn't undo it
+    if (record.id === activeReceiptId) {
+      onRenameActive(title);
+      return;
+    }
+    await runAndRefresh(() => saveReceipt(record.id, { ...record.draft, title }));
+  };
+
+  const handleDuplicate = async (record: SavedReceipt) => {
+    await runAndRefresh(() => saveReceipt(`receipt_${Date.now()}`, {
+      ...record.draft,
+      title: `${savedReceiptName(record)} (copy)`
+    }));
+  };
+
+  const handleDelete = async (record: SavedReceipt) => {
+    if (!confirm(`Delete "${savedReceiptName(record)}"? This cannot be undone.`)) return;
+    await runAndRefresh(() => deleteSavedReceipt(record.id));
+  };
+
+  const visible = saved.filter(record => matchesSearch(record, search));
+  // Worked out once per load rather than on every keystroke in the search box
+  const grandTotals = useMemo(
+    () => new Map(saved.map(record => [record.id, compute(record.draft).receiptGrand])),
+    [saved]
+  );
+
+  return (
+    <div className="saved-receipts-panel">
+      <h3>Saved Receipts</h3>
+      <p className="autosave-status">
+        <small>
+          {storageError
+            ? `Autosave unavailable: ${storageError}`
+            : lastSavedAt
+              ? `Autosaved at ${new Date(lastSavedAt).toLocaleTimeString()}`
+              : 'Changes are saved in this browser automatically'}
+        </small>
+      </p>
+
+      {saved.length > 0 && (
+        <input
+          type="search"
+          className="saved-search"
+          placeholder="Search store, date or title"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      )}
+      {error && <p className="saved-error"><small>{error}</small></p>}
+      {skipped.length > 0 && (
+        <div className="saved-error">
+          <small>
+            {skipped.length} saved receipt{skipped.length === 1 ? '' : 's'} could not be opened:
+          </small>
+          <ul className="saved-skipped">
+            {skipped.map((record, index) => (
+              <li key={record.id ?? index}>
+                <small>{record.id ?? 'Unnamed record'}: {record.reason}</small>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <ul className="saved-list">
+        {visible.map(record => (
+          <li key={record.id} className={record.id === activeReceiptId ? 'active' : ''}>
+            {editingId === record.id ? (
+              <div className="saved-rename">
+                <input
+                  type="text"
+                  value={editName}
+                  autoFocus
+                  onChange={(e) => setEditName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleRename(record);
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                />
+                <button onClick={() => handleRename(record)}>Save</button>
+              </div>
+            ) : (
+              <div className="saved-info">
+                <strong>{savedReceiptName(record)}</strong>
+                {record.id === activeReceiptId && <span className="saved-open-badge">open</span>}
+                <small>
+                  {[record.draft.storeName, record.draft.purchasedAt].filter(Boolean).join(' · ')}
+                  {record.draft.items.length > 0 &&
+                    ` · ${formatMoney(grandTotals.get(record.id) ?? 0, record.draft.currency)}`}
+                </small>
+              </div>
+            )}
+            <div className="saved-actions">
+              {record.id !== activeReceiptId && (
+                <button onClick={() => onOpen(record)}>Open</button>
+              )}
+              <button
+                onClick={() => {
+                  setEditingId(record.id);
+                  setEditName(savedReceiptName(record));
+                }}
+              >
+                Rename
+              </button>
+              <button onClick={() => handleDuplicate(record)}>Duplicate</button>
+              <button onClick={() => handleDelete(record)}>Delete</button>
+            </div>
+          </li>
+        ))}
+      </ul>
+      {saved.length > 0 && visible.length === 0 && (
+        <p className="saved-empty"><small>No saved receipts match "{search}"</small></p>
+      )}
+    </div>
+  );
+}
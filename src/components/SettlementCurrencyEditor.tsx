@@ -0,0 +1,109 @@
+import { useRef } from 'react';
+import type { ReceiptDraft } from '../types';
+import { parseExchangeRateFile } from '../parsing';
+
+interface SettlementCurrencyEditorProps {
+  draft: ReceiptDraft;
+  onUpdateMeta: (meta: Partial<ReceiptDraft>) => void;
+}
+
+// Lets the group settle in a different currency than the receipt was paid in.
+// Rates are typed in or loaded from a saved file, so this works offline.
+export default function SettlementCurrencyEditor({ draft, onUpdateMeta }: SettlementCurrencyEditorProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const settlement = draft.settlement;
+
+  const handleRateFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      onUpdateMeta({
+        settlement: parseExchangeRateFile(JSON.parse(text), draft.currency, settlement?.currency ?? 'USD')
+      });
+    } catch (error) {
+      alert(`Error importing rate: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  if (!settlement) {
+    return (
+      <div className="settlement-currency">
+        <button
+          type="button"
+          onClick={() => onUpdateMeta({
+            settlement: {
+              currency: draft.currency.toUpperCase() === 'USD' ? 'EUR' : 'USD',
+              rate: 1,
+              rateDate: new Date().toISOString().split('T')[0],
+              source: 'manual'
+            }
+          })}
+        >
+          + Settle in another currency
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="settlement-currency">
+      <div className="totals-row">
+        <span>Settle in:</span>
+        <input
+          type="text"
+          className="currency-input"
+          maxLength={3}
+          value={settlement.currency}
+          onChange={(e) => onUpdateMeta({
+            settlement: { ...settlement, currency: e.target.value.toUpperCase() }
+          })}
+        />
+      </div>
+      <div className="totals-row">
+        <span>1 {draft.currency} =</span>
+        <input
+          type="number"
+          min="0"
+          step="any"
+          value={settlement.rate}
+          onChange={(e) => onUpdateMeta({
+            settlement: { ...settlement, rate: parseFloat(e.target.value) || 0, source: 'manual' }
+          })}
+        />
+        <span>{settlement.currency}</span>
+      </div>
+      <div className="totals-row">
+        <span>Rate date:</span>
+        <input
+          type="date"
+          value={settlement.rateDate ?? ''}
+          onChange={(e) => onUpdateMeta({
+            settlement: { ...settlement, rateDate: e.target.value || undefined }
+          })}
+        />
+      </div>
+      <div className="settlement-actions">
+        <small>{settlement.source === 'imported' ? 'Rate imported from file' : 'Rate entered manually'}</small>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json"
+          onChange={handleRateFile}
+          style={{ display: 'none' }}
+        />
+        <button type="button" onClick={() => fileInputRef.current?.click()}>
+          Import rate
+        </button>
+        <button type="button" onClick={() => onUpdateMeta({ settlement: undefined })}>
+          Remove
+        </button>
+      </div>
+    </div>
+  );
+}
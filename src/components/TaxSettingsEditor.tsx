@@ -0,0 +1,88 @@
+import type { ReceiptDraft } from '../types';
+
+interface TaxSettingsEditorProps {
+  draft: ReceiptDraft;
+  onUpdateMeta: (meta: Partial<ReceiptDraft>) => void;
+}
+
+export default function TaxSettingsEditor({ draft, onUpdateMeta }: TaxSettingsEditorProps) {
+  const taxMode = draft.taxMode ?? 'order';
+  const categoryTaxRates = draft.categoryTaxRates ?? {};
+
+  // Offer every category on the receipt, plus any rates kept from earlier edits
+  const categories = Array.from(new Set([
+    ...draft.items.map(item => item.category?.trim()).filter((c): c is string => !!c),
+    ...Object.keys(categoryTaxRates)
+  ]));
+
+  const setCategoryRate = (category: string, value: string) => {
+    const next = { ...categoryTaxRates };
+    if (value === '') {
+      delete next[category];
+    } else {
+      next[category] = parseFloat(value) || 0;
+    }
+    onUpdateMeta({ categoryTaxRates: Object.keys(next).length > 0 ? next : undefined });
+  };
+
+  return (
+    <div className="tax-settings">
+      <div className="totals-row">
+        <span>Tax mode:</span>
+        <select
+          value={taxMode}
+          onChange={(e) => onUpdateMeta({ taxMode: e.target.value as ReceiptDraft['taxMode'] })}
+        >
+          <option value="order">Single tax total</option>
+          <option value="rates">Per-item rates</option>
+        </select>
+      </div>
+
+      <label className="tax-inclusive-toggle">
+        <input
+          type="checkbox"
+          checked={draft.pricesIncludeTax ?? false}
+          onChange={(e) => onUpdateMeta({ pricesIncludeTax: e.target.checked || undefined })}
+        />
+        Prices include tax (VAT)
+      </label>
+
+      {taxMode === 'rates' && (
+        <div className="totals-row">
+          <span>Default rate (%):</span>
+          <input
+            type="number"
+            min="0"
+            step="0.125"
+            value={draft.defaultTaxRate ?? ''}
+            onChange={(e) => onUpdateMeta({
+              defaultTaxRate: e.target.value === '' ? undefined : parseFloat(e.target.value) || 0
+            })}
+          />
+        </div>
+      )}
+
+      {categories.length > 0 && (
+        <div className="category-tax-rates">
+          <small>
+            {taxMode === 'rates'
+              ? 'Category rates (%), blank uses the default, 0 is exempt:'
+              : 'Set a category to 0 to leave it out of tax:'}
+          </small>
+          {categories.map(category => (
+            <div key={category} className="totals-row">
+              <span>{category}</span>
+              <input
+                type="number"
+                min="0"
+                step="0.125"
+                value={categoryTaxRates[category] ?? ''}
+                onChange={(e) => setCategoryRate(category, e.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import { useState } from 'react';
+import type { Person, ReceiptDraft } from '../types';
+import { parseReceiptText, textReceiptToDraft, textReceiptTotals } from '../textReceipt';
+import type { TextLineKind, TextReceipt, TextReceiptLine } from '../textReceipt';
+import { formatMoney, minorUnit } from '../currency';
+
+interface TextImportDialogProps {
+  initialText?: string;
+  fileName?: string;
+  people: Person[];
+  currency: string;
+  onImport: (draft: ReceiptDraft) => void;
+  onCancel: () => void;
+}
+
+const KIND_LABELS: Record<TextLineKind, string> = {
+  item: 'Item',
+  discount: 'Discount',
+  charge: 'Charge / tip',
+  subtotal: 'Subtotal',
+  tax: 'Tax',
+  total: 'Total',
+  store: 'Store name',
+  date: 'Date',
+  ignored: 'Ignore',
+  unknown: 'Unknown'
+};
+
+// Kinds that carry an amount into the draft or the totals check
+const PRICED_KINDS: TextLineKind[] = ['item', 'discount', 'charge', 'subtotal', 'tax', 'total'];
+
+function needsReview(line: TextReceiptLine): boolean {
+  return line.kind === 'unknown' || (PRICED_KINDS.includes(line.kind) && line.amount === undefined);
+}
+
+export default function TextImportDialog({
+  initialText = '',
+  fileName,
+  people,
+  currency,
+  onImport,
+  onCancel
+}: TextImportDialogProps) {
+  const [text, setText] = useState(initialText);
+  const [receipt, setReceipt] = useState<TextReceipt | null>(() =>
+    initialText.trim() ? parseReceiptText(initialText, currency) : null
+  );
+
+  const updateLine = (line: number, updates: Partial<TextReceiptLine>) => {
+    if (!receipt) return;
+    setReceipt({
+      ...receipt,
+      lines: receipt.lines.map(l => l.line === line ? { ...l, ...updates } : l)
+    });
+  };
+
+  if (!receipt) {
+    return (
+      <div className="text-import-dialog">
+        <h4>Paste receipt text</h4>
+        <textarea
+          rows={12}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={'TRADER JOE\'S\n03/14/2024\n2 x Oat Milk        7.98\nBananas             1.29\nSUBTOTAL            9.27\nTAX                 0.74\nTOTAL              10.01'}
+        />
+        <div className="wizard-actions">
+          <button type="button" onClick={() => setReceipt(parseReceiptText(text, currency))} disabled={!text.trim()}>
+            Read Lines
+          </button>
+          <button type="button" onClick={onCancel}>Cancel</button>
+        </div>
+      </div>
+    );
+  }
+
+  const totals = textReceiptTotals(receipt);
+  const reviewCount = receipt.lines.filter(needsReview).length;
+  const itemCount = receipt.lines.filter(line => line.kind === 'item' && line.amount !== undefined).length;
+
+  const handleImport = () => {
+    if (reviewCount > 0 && !confirm(
+      `${reviewCount} line${reviewCount === 1 ? '' : 's'} still need${reviewCount === 1 ? 's' : ''} review and will be left out. Import anyway?`
+    )) {
+      return;
+    }
+    const lines = receipt.lines.filter(line => !needsReview(line));
+    onImport(textReceiptToDraft({ ...receipt, lines }, people, currency));
+  };
+
+  return (
+    <div className="text-import-dialog">
+      <h4>Review {fileName ?? 'pasted receipt'}</h4>
+
+      <div className="text-import-header">
+        <label>
+          <span>Store</span>
+          <input
+            type="text"
+            value={receipt.storeName ?? ''}
+            onChange={(e) => setReceipt({ ...receipt, storeName: e.target.value || undefined })}
+          />
+        </label>
+        <label>
+          <span>Date</span>
+          <input
+            type="date"
+            value={receipt.purchasedAt ?? ''}
+            onChange={(e) => setReceipt({ ...receipt, purchasedAt: e.target.value || undefined })}
+          />
+        </label>
+      </div>
+
+      {reviewCount > 0 && (
+        <p className="text-import-review-note">
+          {reviewCount} line{reviewCount === 1 ? '' : 's'} could not be classified. Pick a kind for
+          each highlighted line, or set it to Ignore.
+        </p>
+      )}
+
+      <div className="text-import-lines">
+        <table>
+          <thead>
+            <tr>
+              <th>Line</th>
+              <th>Kind</th>
+              <th>Name</th>
+              <th>Qty</th>
+              <th>Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {receipt.lines.map(line => {
+              const priced = PRICED_KINDS.includes(line.kind) || line.kind === 'unknown';
+              return (
+                <tr key={line.line} className={needsReview(line) ? 'text-line-review' : line.kind === 'ignored' ? 'text-line-ignored' : undefined}>
+                  <td title={line.text}>{line.line}</td>
+                  <td>
+                    <select
+                      value={line.kind}
+                      onChange={(e) => updateLine(line.line, { kind: e.target.value as TextLineKind })}
+                    >
+                      {(Object.keys(KIND_LABELS) as TextLineKind[]).map(kind => (
+                        <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    {priced ? (
+                      <input
+                        type="text"
+                        value={line.name ?? line.text}
+                        onChange={(e) => updateLine(line.line, { name: e.target.value })}
+                      />
+                    ) : (
+                      <span className="text-line-raw">{line.text}</span>
+                    )}
+                  </td>
+                  <td>
+                    {line.kind === 'item' && (
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={line.quantity ?? ''}
+                        placeholder="1"
+                        onChange={(e) => updateLine(line.line, {
+                          quantity: e.target.value ? Number(e.target.value) : undefined,
+                          unitPrice: undefined
+                        })}
+                      />
+                    )}
+                  </td>
+                  <td>
+                    {priced && (
+                      <input
+                        type="number"
+                        min="0"
+                        step={minorUnit(currency)}
+                        value={line.amount ?? ''}
+                        onChange={(e) => updateLine(line.line, {
+                          amount: e.target.value ? Number(e.target.value) : undefined,
+                          unitPrice: undefined
+                        })}
+                      />
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="text-import-totals">
+        <div>
+          <span>Items</span>
+          <span>{formatMoney(totals.items, currency)}</span>
+        </div>
+        {totals.discounts > 0 && (
+          <div>
+            <span>Discounts</span>
+            <span>−{formatMoney(totals.discounts, currency)}</span>
+          </div>
+        )}
+        {totals.charges > 0 && (
+          <div>
+            <span>Charges</span>
+            <span>{formatMoney(totals.charges, currency)}</span>
+          </div>
+        )}
+        <div>
+          <span>{totals.taxIncluded ? 'Tax (included in prices)' : 'Tax'}</span>
+          <span>{formatMoney(totals.tax, currency)}</span>
+        </div>
+        <div className="text-import-total">
+          <span>Total from lines</span>
+          <span>{formatMoney(totals.computedTotal, currency)}</span>
+        </div>
+        {totals.total !== undefined && (
+          <div className={totals.total === totals.computedTotal ? 'text-import-match' : 'text-import-mismatch'}>
+            <span>Printed total</span>
+            <span>
+              {formatMoney(totals.total, currency)}
+              {totals.total === totals.computedTotal ? ' ✓' : ' ✗'}
+            </span>
+          </div>
+        )}
+      </div>
+
+      <div className="wizard-actions">
+        <button type="button" onClick={handleImport} disabled={itemCount === 0}>
+          Import {itemCount} Item{itemCount === 1 ? '' : 's'}
+        </button>
+        <button type="button" onClick={() => setReceipt(null)}>
+          Edit Text
+        </button>
+        <button type="button" onClick={onCancel}>Cancel</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import type { Person } from '../types';
+
+interface UnitClaimSelectorProps {
+  people: Person[];
+  quantity: number;
+  claims: Record<string, number>;
+  onChange: (claims: Record<string, number>) => void;
+}
+
+export default function UnitClaimSelector({ people, quantity, claims, onChange }: UnitClaimSelectorProps) {
+  const claimed = Object.values(claims).reduce((sum, units) => sum + units, 0);
+
+  const setUnits = (personId: string, units: number) => {
+    const next = { ...claims };
+    if (units > 0) {
+      next[personId] = units;
+    } else {
+      delete next[personId];
+    }
+    onChange(next);
+  };
+
+  if (people.length === 0) {
+    return <span className="no-people">No people added yet</span>;
+  }
+
+  return (
+    <div className="unit-claim-selector">
+      <div className={`unit-claim-status ${claimed === quantity ? 'complete' : 'incomplete'}`}>
+        {claimed} of {quantity} claimed
+      </div>
+      {people.map((person) => {
+        const units = claims[person.id] ?? 0;
+        return (
+          <div key={person.id} className="unit-claim-row">
+            <span>{person.name}</span>
+            <button type="button" onClick={() => setUnits(person.id, units - 1)} disabled={units <= 0}>
+              −
+            </button>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={units}
+              onChange={(e) => setUnits(person.id, parseFloat(e.target.value) || 0)}
+            />
+            <button type="button" onClick={() => setUnits(person.id, units + 1)}>
+              +
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { CsvImportError, parseCsv } from './csv';
+import { parseCsvToDraft } from './parsing';
+
+const values = (text: string) => parseCsv(text).map(record => record.values);
+
+describe('parseCsv', () => {
+  it('keeps commas inside quoted fields', () => {
+    expect(values('name,payers\n"Fries, large","alice,bob"\n')).toEqual([
+      ['name', 'payers'],
+      ['Fries, large', 'alice,bob']
+    ]);
+  });
+
+  it('reads doubled quotes as one quote', () => {
+    expect(values('"12"" pizza","say ""hi"""')).toEqual([['12" pizza', 'say "hi"']]);
+  });
+
+  it('handles CRLF, lone CR and a leading BOM', () => {
+    expect(values('\uFEFFname,price\r\nTea,2\rCake,3\r\n')).toEqual([
+      ['name', 'price'],
+      ['Tea', '2'],
+      ['Cake', '3']
+    ]);
+  });
+
+  it('keeps newlines inside quoted fields', () => {
+    expect(values('"two\r\nlines",1')).toEqual([['two\r\nlines', '1']]);
+  });
+
+  it('skips blank lines', () => {
+    expect(values('a,b\n\n   \nc,d')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('reports where an unclosed quote starts', () => {
+    expect(() => parseCsv('name,price\nTea,2\n"Cake,3\nPie,4')).toThrow(CsvImportError);
+    expect(() => parseCsv('name,price\nTea,2\n"Cake,3\nPie,4')).toThrow('Line 3: quoted field is never closed');
+  });
+
+  it('numbers each record by the line it starts on', () => {
+    const records = parseCsv('name,price\r\n"Soup\r\nof the day",4\r\n\r\nTea,2\r\n');
+    expect(records.map(record => record.line)).toEqual([1, 2, 5]);
+  });
+});
+
+describe('parseCsvToDraft row errors', () => {
+  it('points each bad row at its line in the file', () => {
+    const csv = 'name,price\n"Soup\nof the day",abc\nTea,2\n\n,3\n';
+    try {
+      parseCsvToDraft(csv, []);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(CsvImportError);
+      const { rowErrors, partialDraft } = error as CsvImportError;
+      expect(rowErrors).toEqual([
+        { line: 2, message: 'price "abc" is not a number' },
+        { line: 6, message: 'item name is empty' }
+      ]);
+      expect(partialDraft?.items.map(item => item.name)).toEqual(['Tea']);
+    }
+  });
+});
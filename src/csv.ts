@@ -0,0 +1,96 @@
+import type { ReceiptDraft } from './types';
+
+// Minimal RFC 4180 reader: quoted fields (with "" escapes and embedded
+// newlines), CRLF/LF/CR line endings, a leading BOM and blank lines.
+
+export type CsvRecord = {
+  line: number; // 1-based line the record starts on
+  values: string[];
+};
+
+export type CsvRowError = {
+  line: number;
+  message: string;
+};
+
+// Thrown when the file can't be read at all, or when some rows are invalid.
+// `rowErrors` lists every bad row so they can be shown together, and
+// `partialDraft` holds the rows that did parse.
+export class CsvImportError extends Error {
+  rowErrors: CsvRowError[];
+  partialDraft?: ReceiptDraft;
+
+  constructor(message: string, rowErrors: CsvRowError[] = [], partialDraft?: ReceiptDraft) {
+    super(message);
+    this.name = 'CsvImportError';
+    this.rowErrors = rowErrors;
+    this.partialDraft = partialDraft;
+  }
+}
+
+export function parseCsv(text: string): CsvRecord[] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const records: CsvRecord[] = [];
+
+  let values: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  let quoteLine = 1;
+
+  const endRecord = () => {
+    values.push(field);
+    // A line with nothing on it is not a record
+    if (values.length > 1 || values[0].trim() !== '') {
+      records.push({ line: recordLine, values });
+    }
+    values = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.trim() === '') {
+      // Opening quote; whitespace before it is dropped
+      field = '';
+      inQuotes = true;
+      quoteLine = line;
+    } else if (char === ',') {
+      values.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new CsvImportError(`Line ${quoteLine}: quoted field is never closed`);
+  }
+  if (field !== '' || values.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
@@ -0,0 +1,56 @@
+import Decimal from 'decimal.js';
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+// Falls back to USD-style two-decimal formatting for codes Intl doesn't know
+function currencyFormatter(currency: string): Intl.NumberFormat | null {
+  const code = currency.toUpperCase();
+  if (!formatters.has(code)) {
+    try {
+      formatters.set(code, new Intl.NumberFormat(undefined, { style: 'currency', currency: code }));
+    } catch {
+      return null;
+    }
+  }
+  return formatters.get(code)!;
+}
+
+let supportedCurrencies: Set<string> | null = null;
+
+export function isKnownCurrency(currency: string): boolean {
+  supportedCurrencies ??= new Set(Intl.supportedValuesOf('currency'));
+  return supportedCurrencies.has(currency.toUpperCase());
+}
+
+// ISO 4217 minor-unit exponent, e.g. 2 for USD, 0 for JPY, 3 for KWD
+export function currencyExponent(currency: string): number {
+  return currencyFormatter(currency)?.resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+// Smallest amount of the currency, e.g. 0.01 for USD or 1 for JPY
+export function minorUnit(currency: string): number {
+  return new Decimal(10).pow(-currencyExponent(currency)).toNumber();
+}
+
+export function roundMoney(
+  n: number,
+  currency: string,
+  rounding: Decimal.Rounding = Decimal.ROUND_HALF_UP
+): number {
+  return new Decimal(n).toDecimalPlaces(currencyExponent(currency), rounding).toNumber();
+}
+
+export function currencySymbol(currency: string): string {
+  const formatter = currencyFormatter(currency);
+  return formatter?.formatToParts(0).find(part => part.type === 'currency')?.value ?? currency;
+}
+
+export function formatMoney(n: number, currency: string): string {
+  const formatter = currencyFormatter(currency);
+  return formatter ? formatter.format(n) : `${currency} ${n.toFixed(2)}`;
+}
+
+// Signed form for adjustments, e.g. "+$0.01" or "-$0.01"
+export function formatMoneyDelta(n: number, currency: string): string {
+  return `${n > 0 ? '+' : n < 0 ? '-' : ''}${formatMoney(Math.abs(n), currency)}`;
+}
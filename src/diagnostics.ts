@@ -0,0 +1,69 @@
+import type { Diagnostic, DiagnosticCode, DiagnosticSeverity } from './types';
+
+// How serious each problem is. Errors mean the split can't be trusted, so the
+// result is not final until they are fixed.
+const SEVERITY: Record<DiagnosticCode, DiagnosticSeverity> = {
+  'negative-tax': 'error',
+  'negative-tax-rate': 'error',
+  'tax-mismatch': 'warning',
+  'subtotal-mismatch': 'error',
+  'total-mismatch': 'error',
+  'totals-overridden': 'warning',
+  'reconciliation-hint': 'info',
+  'unknown-currency': 'warning',
+  'unknown-settlement-currency': 'error',
+  'same-settlement-currency': 'warning',
+  'invalid-exchange-rate': 'error',
+  'negative-payment': 'error',
+  'payment-mismatch': 'warning',
+  'unknown-person': 'error',
+  'duplicate-person-id': 'error',
+  'negative-charge': 'error',
+  'unassigned-charge': 'error',
+  'invalid-discount': 'error',
+  'orphaned-discount': 'error',
+  'discount-exceeds-item': 'error',
+  'unassigned-discount': 'error',
+  'nothing-to-allocate': 'warning',
+  'negative-price': 'error',
+  'negative-quantity': 'error',
+  'quantity-mismatch': 'warning',
+  'unclaimed-units': 'warning',
+  'overclaimed-units': 'error',
+  'no-payers': 'warning',
+  'no-valid-payers': 'error',
+  'unknown-payer': 'error',
+  'ignored-weights': 'warning',
+  'weight-without-payer': 'info'
+};
+
+const SEVERITY_ORDER: DiagnosticSeverity[] = ['error', 'warning', 'info'];
+
+export type DiagnosticTarget = Pick<Diagnostic, 'itemId' | 'personId' | 'chargeId' | 'discountId'>;
+
+export function diagnostic(code: DiagnosticCode, message: string, target: DiagnosticTarget = {}): Diagnostic {
+  return { code, severity: SEVERITY[code], message, ...target };
+}
+
+// The result can be treated as final once nothing is an error
+export function isFinal(diagnostics: Diagnostic[]): boolean {
+  return !diagnostics.some(d => d.severity === 'error');
+}
+
+export function hasTarget(d: DiagnosticTarget): boolean {
+  return !!(d.itemId || d.chargeId || d.discountId);
+}
+
+// Combines validation and calculation diagnostics, dropping repeats of the
+// same problem on the same row, errors first
+export function mergeDiagnostics(...lists: Diagnostic[][]): Diagnostic[] {
+  const seen = new Set<string>();
+  const merged: Diagnostic[] = [];
+  for (const d of lists.flat()) {
+    const key = [d.code, d.itemId, d.personId, d.chargeId, d.discountId].join('|');
+    if (seen.has(key)) continue;
+    seen.add(key);
+    merged.push(d);
+  }
+  return merged.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+}
@@ -0,0 +1,37 @@
+import type { PeopleDirectory, PeopleGroup, Person, ReceiptDraft } from './types';
+
+// The people directory keeps everyone the group splits with, so a person has
+// the same ID on every receipt and export instead of a new one each time.
+
+export const emptyDirectory: PeopleDirectory = { people: [], groups: [] };
+
+export function newPersonId(): string {
+  return `person_${crypto.randomUUID()}`;
+}
+
+export function newGroupId(): string {
+  return `group_${crypto.randomUUID()}`;
+}
+
+// Re-adding someone by name reuses their directory entry
+export function findPersonByName(people: Person[], name: string): Person | undefined {
+  const needle = name.trim().toLowerCase();
+  return people.find(person => person.name.trim().toLowerCase() === needle);
+}
+
+// Members in the order the group lists them, skipping any no longer in the directory
+export function groupMembers(directory: PeopleDirectory, group: PeopleGroup): Person[] {
+  return group.memberIds
+    .map(id => directory.people.find(person => person.id === id))
+    .filter((person): person is Person => person !== undefined);
+}
+
+// Copies a person's name and handles onto a receipt's copy of them; returns
+// the same draft when they aren't on it
+export function withPersonDetails(draft: ReceiptDraft, person: Person): ReceiptDraft {
+  if (!draft.people.some(p => p.id === person.id)) return draft;
+  return {
+    ...draft,
+    people: draft.people.map(p => p.id === person.id ? { ...p, name: person.name, handles: person.handles } : p)
+  };
+}
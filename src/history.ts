@@ -0,0 +1,63 @@
+// Session undo/redo history. Each entry keeps the state from before an edit
+// along with a short label describing that edit.
+export type HistoryEntry<T> = {
+  state: T;
+  label: string;
+  key?: string; // edits with the same key in quick succession share one entry
+  at: number;
+};
+
+export type History<T> = {
+  past: HistoryEntry<T>[];
+  present: T;
+  future: HistoryEntry<T>[];
+};
+
+const HISTORY_LIMIT = 100;
+// Typing into a field dispatches on every keystroke; fold those into one entry
+const COALESCE_MS = 1000;
+
+export function createHistory<T>(present: T): History<T> {
+  return { past: [], present, future: [] };
+}
+
+export function recordHistory<T>(history: History<T>, next: T, label: string, key?: string): History<T> {
+  const now = Date.now();
+  const last = history.past[history.past.length - 1];
+
+  if (key && last?.key === key && history.future.length === 0 && now - last.at < COALESCE_MS) {
+    return {
+      past: [...history.past.slice(0, -1), { ...last, label, at: now }],
+      present: next,
+      future: []
+    };
+  }
+
+  return {
+    past: [...history.past, { state: history.present, label, key, at: now }].slice(-HISTORY_LIMIT),
+    present: next,
+    future: []
+  };
+}
+
+export function undo<T>(history: History<T>): History<T> {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return history;
+
+  return {
+    past: history.past.slice(0, -1),
+    present: entry.state,
+    future: [{ ...entry, state: history.present }, ...history.future]
+  };
+}
+
+export function redo<T>(history: History<T>): History<T> {
+  const [entry, ...future] = history.future;
+  if (!entry) return history;
+
+  return {
+    past: [...history.past, { ...entry, state: history.present }],
+    present: entry.state,
+    future
+  };
+}
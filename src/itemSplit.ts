@@ -0,0 +1,187 @@
+import Decimal from 'decimal.js';
+import type { Discount, Item, ReceiptDraft } from './types';
+import { hasUnitClaims, normalizeShares, resolveDiscountAmounts } from './calculator';
+import { currencyExponent, roundMoney } from './currency';
+
+// Splitting one receipt line into several (a platter that covered three
+// dishes) and merging lines that are really the same thing (one product rung
+// up three times).
+
+export type SplitPart = {
+  name: string;
+  price: number;
+};
+
+// Shares `total` out by `ratios` in whole minor units; the leftover units go
+// to the parts with the largest remainders, earlier parts first on a tie
+export function allocateAmount(total: number, ratios: number[], currency: string): number[] {
+  const scale = new Decimal(10).pow(currencyExponent(currency));
+  const units = new Decimal(total).times(scale).toDecimalPlaces(0);
+  const ratioTotal = ratios.reduce((sum, ratio) => sum.plus(ratio), new Decimal(0));
+  if (ratioTotal.isZero()) return ratios.map(() => 0);
+
+  const exact = ratios.map(ratio => units.times(ratio).dividedBy(ratioTotal));
+  const floors = exact.map(amount => amount.floor());
+  let leftover = units.minus(floors.reduce((sum, amount) => sum.plus(amount), new Decimal(0))).toNumber();
+  const order = exact
+    .map((amount, index) => ({ index, remainder: amount.minus(floors[index]) }))
+    .sort((a, b) => b.remainder.comparedTo(a.remainder) || a.index - b.index);
+  for (const { index } of order) {
+    if (leftover <= 0) break;
+    floors[index] = floors[index].plus(1);
+    leftover--;
+  }
+  return floors.map(amount => amount.dividedBy(scale).toNumber());
+}
+
+export function equalSplitPrices(price: number, count: number, currency: string): number[] {
+  return allocateAmount(price, Array.from({ length: count }, () => 1), currency);
+}
+
+function uniqueId(base: string, taken: Set<string>): string {
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}_${n}`;
+  taken.add(id);
+  return id;
+}
+
+function sameName(a: Item, b: Item): boolean {
+  return a.name.trim().toLowerCase() === b.name.trim().toLowerCase();
+}
+
+// Replaces an item with one line per part. Payers and weights carry over to
+// every part (units claimed become weights, since the units no longer line
+// up), and item discounts follow: percentages are copied, fixed amounts are
+// shared out by price. Returns the same draft when the parts don't add up to
+// the item's price.
+export function splitItem(draft: ReceiptDraft, itemId: string, parts: SplitPart[]): ReceiptDraft {
+  const item = draft.items.find(i => i.id === itemId);
+  if (!item || parts.length < 2) return draft;
+  const partsTotal = parts.reduce((sum, part) => sum.plus(part.price), new Decimal(0)).toNumber();
+  if (roundMoney(partsTotal, draft.currency) !== roundMoney(item.price, draft.currency)) return draft;
+
+  const taken = new Set(draft.items.map(i => i.id));
+  taken.delete(item.id);
+
+  // An even split of a multi-unit line keeps whole units on each part
+  const quantity = item.quantity ?? 1;
+  const evenUnits = quantity % parts.length === 0 && parts.every(part => part.price === parts[0].price);
+
+  const splitItems: Item[] = parts.map((part, index) => ({
+    ...item,
+    id: uniqueId(`${item.id}_${index + 1}`, taken),
+    name: part.name.trim() || item.name,
+    price: part.price,
+    quantity: evenUnits && quantity / parts.length !== 1 ? quantity / parts.length : undefined,
+    unitPrice: evenUnits ? item.unitPrice : undefined,
+    weights: hasUnitClaims(item) ? { ...item.unitClaims } : item.weights,
+    unitClaims: undefined
+  }));
+
+  const discountIds = new Set((draft.discounts ?? []).map(d => d.id));
+  const discounts = (draft.discounts ?? []).flatMap((discount): Discount[] => {
+    if (discount.itemId !== item.id) return [discount];
+    const amounts = discount.percent !== undefined
+      ? splitItems.map(() => discount.amount)
+      : allocateAmount(discount.amount, parts.map(part => part.price), draft.currency);
+    return splitItems.map((splitItem, index) => ({
+      ...discount,
+      id: index === 0 ? discount.id : uniqueId(`${discount.id}_${index + 1}`, discountIds),
+      itemId: splitItem.id,
+      amount: amounts[index]
+    }));
+  });
+
+  return {
+    ...draft,
+    items: draft.items.flatMap(i => i.id === item.id ? splitItems : [i]),
+    discounts: draft.discounts && discounts
+  };
+}
+
+// Why the lines can't be merged, or undefined when they can
+export function mergeBlocker(items: Item[]): string | undefined {
+  if (items.length < 2) return 'Select at least two lines to merge';
+  const [first, ...rest] = items;
+  if (rest.some(item => !sameName(item, first))) return 'Only lines with the same name can be merged';
+  if (rest.some(item => (item.taxExempt ?? false) !== (first.taxExempt ?? false) || item.taxRate !== first.taxRate)) {
+    return 'The lines are taxed differently';
+  }
+  return undefined;
+}
+
+// Payers of the merged line weighted so everyone keeps paying what they paid
+// across the separate lines; no weights when everyone pays the same
+function mergedShares(items: Item[]): Pick<Item, 'payers' | 'weights'> {
+  const owed = new Map<string, Decimal>();
+  for (const item of items) {
+    for (const [payerId, share] of normalizeShares(item).norm) {
+      owed.set(payerId, (owed.get(payerId) ?? new Decimal(0)).plus(share.times(item.price)));
+    }
+  }
+  const payers = Array.from(owed.keys());
+  const amounts = Array.from(owed.values());
+  if (amounts.length === 0) return { payers, weights: undefined };
+
+  const smallest = Decimal.min(...amounts);
+  if (smallest.isZero() || amounts.every(amount => amount.equals(smallest))) return { payers, weights: undefined };
+  return {
+    payers,
+    weights: Object.fromEntries(payers.map((payerId, index) =>
+      [payerId, amounts[index].dividedBy(smallest).toDecimalPlaces(4).toNumber()]
+    ))
+  };
+}
+
+// Combines same-named lines into the first of them, summing prices and
+// quantities and taking everyone who paid for any of them. Item discounts move
+// to the merged line, percentages as the amount they came to. Returns the same
+// draft when the lines can't be merged.
+export function mergeItems(draft: ReceiptDraft, itemIds: string[]): ReceiptDraft {
+  const items = draft.items.filter(item => itemIds.includes(item.id));
+  if (items.length !== new Set(itemIds).size || mergeBlocker(items)) return draft;
+  const [first] = items;
+
+  const price = roundMoney(
+    items.reduce((sum, item) => sum.plus(item.price), new Decimal(0)).toNumber(),
+    draft.currency
+  );
+  const quantity = items.reduce((sum, item) => sum + (item.quantity ?? 1), 0);
+  const unitPrice = items.every(item => item.unitPrice !== undefined && item.unitPrice === first.unitPrice)
+    ? first.unitPrice
+    : undefined;
+
+  let merged: Item;
+  if (items.every(hasUnitClaims)) {
+    const payers = Array.from(new Set(items.flatMap(item => item.payers)));
+    const unitClaims: Record<string, number> = {};
+    for (const item of items) {
+      for (const [payerId, units] of Object.entries(item.unitClaims ?? {})) {
+        unitClaims[payerId] = (unitClaims[payerId] ?? 0) + units;
+      }
+    }
+    merged = { ...first, price, quantity, unitPrice, payers, weights: undefined, unitClaims };
+  } else {
+    merged = { ...first, price, quantity, unitPrice, ...mergedShares(items), unitClaims: undefined };
+  }
+  merged.category = items.find(item => item.category)?.category;
+
+  const resolved = resolveDiscountAmounts(draft);
+  const discounts = draft.discounts?.map(discount => {
+    if (!discount.itemId || !itemIds.includes(discount.itemId)) return discount;
+    return {
+      ...discount,
+      itemId: first.id,
+      amount: resolved.get(discount.id) ?? discount.amount,
+      percent: undefined
+    };
+  });
+
+  return {
+    ...draft,
+    items: draft.items
+      .filter(item => item === first || !itemIds.includes(item.id))
+      .map(item => item === first ? merged : item),
+    discounts
+  };
+}
@@ -0,0 +1,94 @@
+import Decimal from 'decimal.js';
+import type { CalculationResult, LedgerReceipt, LedgerSummary, Person, ReceiptDraft } from './types';
+import { compute } from './calculator';
+import { computeBalances, minimizeTransfers } from './settlement';
+
+export function receiptLabel(receipt: LedgerReceipt, index: number): string {
+  return receipt.draft.title || receipt.draft.storeName || `Receipt ${index + 1}`;
+}
+
+// Everyone who appears on any receipt, first occurrence wins for the name
+export function ledgerPeople(receipts: LedgerReceipt[]): Person[] {
+  const people = new Map<string, Person>();
+  for (const receipt of receipts) {
+    for (const person of receipt.draft.people) {
+      if (!people.has(person.id)) {
+        people.set(person.id, person);
+      }
+    }
+  }
+  return Array.from(people.values());
+}
+
+// Drafts are replaced rather than changed, so a receipt that hasn't been
+// edited keeps its result between ledger updates
+const draftResults = new WeakMap<ReceiptDraft, CalculationResult>();
+
+function draftResult(draft: ReceiptDraft): CalculationResult {
+  let result = draftResults.get(draft);
+  if (!result) {
+    result = compute(draft);
+    draftResults.set(draft, result);
+  }
+  return result;
+}
+
+// Runs each receipt through `compute()` and adds up who paid and who owes
+// across all of them. Balances can only be added up in one currency, so
+// receipts that settle in another currency, or have no payer recorded, are
+// listed but left out.
+export function computeLedger(receipts: LedgerReceipt[]): LedgerSummary {
+  const results = receipts.map(receipt => draftResult(receipt.draft));
+
+  // Settle in whichever currency most receipts end up in
+  const currencyCounts = new Map<string, number>();
+  for (const result of results) {
+    if (result.settleUp) {
+      currencyCounts.set(result.settleUp.currency, (currencyCounts.get(result.settleUp.currency) ?? 0) + 1);
+    }
+  }
+  const currency = Array.from(currencyCounts).sort((a, b) => b[1] - a[1])[0]?.[0]
+    ?? receipts[0]?.draft.currency
+    ?? 'USD';
+
+  const owed: Array<{ personId: string; amount: number }> = [];
+  const paid: Array<{ personId: string; amount: number }> = [];
+  const running = new Map<string, Decimal>();
+
+  const summaryReceipts = receipts.map((receipt, index) => {
+    const result = results[index];
+    const settleUp = result.settleUp;
+    const entry: LedgerSummary['receipts'][number] = {
+      receiptId: receipt.id,
+      label: receiptLabel(receipt, index),
+      grand: result.settlement?.receiptGrand ?? result.receiptGrand,
+      included: false,
+      running: {}
+    };
+
+    if (!settleUp) {
+      entry.note = 'No payer recorded';
+    } else if (settleUp.currency !== currency) {
+      entry.note = `Settles in ${settleUp.currency}, not ${currency}`;
+    } else {
+      entry.included = true;
+      for (const balance of settleUp.balances) {
+        owed.push({ personId: balance.personId, amount: balance.owes });
+        paid.push({ personId: balance.personId, amount: balance.paid });
+        running.set(balance.personId, (running.get(balance.personId) ?? new Decimal(0)).plus(balance.net));
+      }
+    }
+
+    entry.running = Object.fromEntries(Array.from(running, ([personId, net]) => [personId, net.toNumber()]));
+    return entry;
+  });
+
+  const balances = computeBalances(owed, paid);
+
+  return {
+    currency,
+    receipts: summaryReceipts,
+    balances,
+    transfers: minimizeTransfers(balances, currency)
+  };
+}
@@ -1,168 +1,436 @@
-import type { Person, ReceiptDraft, Item, CSVRow } from './types';
+import type { Person, ReceiptDraft, Item, CSVRow, CsvColumnMapping, CsvField, Diagnostic, DiagnosticCode, Discount, SettlementRate } from './types';
+import { hasUnitClaims, normalizeShares, resolveDiscountAmounts } from './calculator';
+import { formatMoney, isKnownCurrency, minorUnit, roundMoney } from './currency';
+import { CsvImportError, parseCsv } from './csv';
+import type { CsvRowError } from './csv';
+import { parseDraftFile } from './schema';
+import { diagnostic } from './diagnostics';
+import type { DiagnosticTarget } from './diagnostics';
 
+// Spellings we recognize for each column, after lower-casing and turning spaces into underscores
+const CSV_COLUMNS: Record<CsvField, string[]> = {
+  name: ['name', 'item', 'item_name', 'product', 'description'],
+  price: ['price'],
+  quantity: ['quantity', 'qty'],
+  unit_price: ['unit_price', 'unitprice'],
+  total: ['total', 'line_total', 'amount'],
+  quantity_x_unit: ['qty_x_unit', 'quantity_x_unit'],
+  category: ['category'],
+  payers: ['payers', 'payer', 'shares']
+};
+
+const MONEY_FIELDS: CsvField[] = ['price', 'unit_price', 'total'];
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/\s+/g, '_');
+}
+
+// Maps each field to the first header that looks like it
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const columns: CsvColumnMapping['columns'] = {};
+  for (const [field, aliases] of Object.entries(CSV_COLUMNS) as Array<[CsvField, string[]]>) {
+    const header = headers.find(h => aliases.includes(normalizeHeader(h)));
+    if (header !== undefined) {
+      columns[field] = header;
+    }
+  }
+  return { columns };
+}
+
+// Reads "2 x 3.50", "2 × $3.50" or "2 @ 3.50" into quantity and unit price
+function parseQuantityTimesUnit(value: string): { quantity: number; unitPrice: number } | undefined {
+  const match = value.match(/^\s*(\d+(?:\.\d+)?)\s*[x×*@]\s*[$€£¥]?\s*(-?\d+(?:\.\d+)?)\s*$/i);
+  return match ? { quantity: Number(match[1]), unitPrice: Number(match[2]) } : undefined;
+}
+
+// Reads `kevin:2,alice:1` into payer names and weights
+function parseWeightedPayers(field: string): { names: string[]; weights: Record<string, number>; error?: string } {
+  const names: string[] = [];
+  const weights: Record<string, number> = {};
+
+  for (const entry of field.split(/[,;]/).map(p => p.trim()).filter(p => p)) {
+    const separator = entry.lastIndexOf(':');
+    const name = separator >= 0 ? entry.slice(0, separator).trim() : entry;
+    if (separator >= 0) {
+      const weight = Number(entry.slice(separator + 1));
+      if (!entry.slice(separator + 1).trim() || isNaN(weight) || weight <= 0) {
+        return { names, weights, error: `payer weight "${entry}" must be a positive number` };
+      }
+      weights[name] = weight;
+    }
+    names.push(name);
+  }
+  return { names, weights };
+}
+
+// Without a mapping, columns are matched by their usual names (see CSV_COLUMNS)
 export function parseCsvToDraft(
   csv: string,
   peopleBank: Person[],
-  currency: string = "USD"
+  currency: string = "USD",
+  mapping?: CsvColumnMapping
 ): ReceiptDraft {
-  const lines = csv.trim().split('\n');
-  if (lines.length < 2) {
-    throw new Error('CSV must have header and at least one data row');
+  const [headerRecord, ...records] = parseCsv(csv);
+  if (!headerRecord || records.length === 0) {
+    throw new CsvImportError('CSV must have header and at least one data row');
   }
 
-  const headers = lines[0].split(',').map(h => h.trim());
-  const requiredHeaders = ['name', 'price'];
-  
-  for (const required of requiredHeaders) {
-    if (!headers.includes(required)) {
-      throw new Error(`Missing required column: ${required}`);
-    }
+  const headers = headerRecord.values.map(normalizeHeader);
+  const columns = (mapping ?? guessColumnMapping(headerRecord.values)).columns;
+  const columnIndex = (column: CsvField) => {
+    const header = columns[column];
+    return header === undefined ? -1 : headers.indexOf(normalizeHeader(header));
+  };
+
+  if (columnIndex('name') < 0) {
+    throw new CsvImportError('Missing required column: name');
+  }
+  if ((['price', 'total', 'unit_price', 'quantity_x_unit'] as CsvField[]).every(c => columnIndex(c) < 0)) {
+    throw new CsvImportError('Missing required column: price (or total, or unit_price)');
   }
 
   const items: Item[] = [];
-  const warnings: string[] = [];
+  const discounts: Discount[] = [];
+  const rowErrors: CsvRowError[] = [];
+  const payersIndex = columnIndex('payers');
+
+  for (const { line, values } of records) {
+    const field = (column: CsvField) => {
+      const index = columnIndex(column);
+      if (index < 0) return undefined;
+      // Unquoted payer lists spill into extra columns; fold them back when payers is last
+      if (index === payersIndex && index === headers.length - 1) {
+        return values.slice(index).map(v => v.trim()).filter(v => v).join(',');
+      }
+      return values[index]?.trim() || undefined;
+    };
+    const number = (column: CsvField) => {
+      const value = field(column);
+      if (value === undefined) return undefined;
+      const parsed = Number(value.replace(/^[$€£¥]/, ''));
+      if (isNaN(parsed)) {
+        rowErrors.push({ line, message: `${column.replace('_', ' ')} "${value}" is not a number` });
+      }
+      return mapping?.moneyInCents && MONEY_FIELDS.includes(column) ? parsed / 100 : parsed;
+    };
 
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.trim());
     const row: CSVRow = {
-      name: '',
-      price: '',
-      payers: ''
+      name: field('name') ?? '',
+      price: field('price') ?? '',
+      quantity: field('quantity'),
+      unit_price: field('unit_price'),
+      total: field('total'),
+      category: field('category'),
+      payers: field('payers') ?? ''
     };
+    const errorCount = rowErrors.length;
 
-    headers.forEach((header, index) => {
-      if (values[index] !== undefined) {
-        (row as any)[header] = values[index];
+    if (!row.name) {
+      rowErrors.push({ line, message: 'item name is empty' });
+    }
+    let quantity = number('quantity');
+    let unitPrice = number('unit_price');
+    const combined = field('quantity_x_unit');
+    if (combined !== undefined) {
+      const parsed = parseQuantityTimesUnit(combined);
+      if (!parsed) {
+        rowErrors.push({ line, message: `"${combined}" is not in "quantity x unit price" form` });
+      } else {
+        quantity ??= parsed.quantity;
+        unitPrice ??= mapping?.moneyInCents ? parsed.unitPrice / 100 : parsed.unitPrice;
       }
-    });
+    }
+    const total = number('total') ?? number('price');
+    if (quantity !== undefined && quantity < 0) {
+      rowErrors.push({ line, message: 'quantity cannot be negative' });
+    }
+
+    const price = total ?? (quantity !== undefined && unitPrice !== undefined
+      ? roundMoney(quantity * unitPrice, currency)
+      : unitPrice);
+    if (price === undefined) {
+      rowErrors.push({ line, message: 'no price, total or unit price' });
+    }
+
+    const { names: payerNames, weights: payerWeights, error: payerError } = parseWeightedPayers(row.payers);
+    if (payerError) {
+      rowErrors.push({ line, message: payerError });
+    }
 
-    const price = parseFloat(row.price);
+    if (rowErrors.length > errorCount || price === undefined) {
+      continue;
+    }
 
-    if (isNaN(price) || price < 0) {
-      warnings.push(`Invalid price for ${row.name}, skipping row`);
+    // Negative lines ("Member savings -1.50") are discounts on the line above
+    if (price < 0) {
+      const previousItem = items[items.length - 1];
+      discounts.push({
+        id: `discount_${line}`,
+        name: row.name,
+        amount: -price,
+        itemId: previousItem?.id,
+        allocation: 'proportional',
+        taxBasis: 'post-discount'
+      });
       continue;
     }
 
-    // Parse payers - handle missing payers column gracefully
+    // Payers we can't match stay by name, to be resolved once the import is loaded
     const payers: string[] = [];
-    
-    if (row.payers && row.payers.trim()) {
-      const payerNames = row.payers.split(',').map(p => p.trim()).filter(p => p);
-      
-      for (const payerName of payerNames) {
-        const person = peopleBank.find(p => 
-          p.name.toLowerCase() === payerName.toLowerCase() || 
-          p.id === payerName
-        );
-        if (person) {
-          payers.push(person.id);
-        } else {
-          warnings.push(`Unknown payer "${payerName}" for ${row.name} - you can assign payers manually`);
-        }
+    const weights: Record<string, number> = {};
+    for (const payerName of payerNames) {
+      const person = peopleBank.find(p =>
+        p.name.toLowerCase() === payerName.toLowerCase() ||
+        p.id === payerName
+      );
+      const payerId = person?.id ?? payerName;
+      if (payers.includes(payerId)) continue;
+      payers.push(payerId);
+      if (payerWeights[payerName] !== undefined && payerWeights[payerName] !== 1) {
+        weights[payerId] = payerWeights[payerName];
       }
     }
 
-    // Don't skip items with no payers - allow manual assignment
-
     items.push({
-      id: `item_${i}`,
+      id: `item_${line}`,
       name: row.name,
       price,
+      quantity,
+      unitPrice,
       category: row.category,
-      payers
+      payers,
+      weights: Object.keys(weights).length > 0 ? weights : undefined
     });
   }
 
-  if (warnings.length > 0) {
-    console.warn('CSV parsing warnings:', warnings);
-  }
-
-  return {
+  const draft: ReceiptDraft = {
     currency,
     taxTotal: 0,
+    discounts: discounts.length > 0 ? discounts : undefined,
     items,
     people: peopleBank
   };
+
+  if (rowErrors.length > 0) {
+    throw new CsvImportError(
+      `${rowErrors.length} row${rowErrors.length === 1 ? '' : 's'} could not be imported`,
+      rowErrors,
+      draft
+    );
+  }
+  return draft;
 }
 
+// Reads an exported receipt file, upgrading older formats; see schema.ts
 export function parseJsonToDraft(json: unknown): ReceiptDraft {
-  if (!json || typeof json !== 'object') {
-    throw new Error('Invalid JSON format');
-  }
+  return parseDraftFile(json).draft;
+}
 
-  const data = json as any;
+// Reads a saved rate file such as `{ "base": "EUR", "quote": "USD", "rate": 1.08, "date": "2024-05-01" }`,
+// also accepting a `rates` map keyed by quote currency.
+export function parseExchangeRateFile(json: unknown, base: string, quote: string): SettlementRate {
+  const data = json as {
+    base?: string;
+    quote?: string;
+    rate?: unknown;
+    rates?: Record<string, unknown>;
+    date?: string;
+  };
 
-  // Validate required fields
-  if (!Array.isArray(data.items)) {
-    throw new Error('items must be an array');
+  if (!data || typeof data !== 'object') {
+    throw new Error('Rate file must be a JSON object');
   }
-  if (!Array.isArray(data.people)) {
-    throw new Error('people must be an array');
+  if (data.base && data.base.toUpperCase() !== base.toUpperCase()) {
+    throw new Error(`Rate file is for ${data.base.toUpperCase()}, but the receipt is in ${base.toUpperCase()}`);
   }
 
-  const people: Person[] = data.people.map((p: any, index: number) => {
-    if (typeof p === 'string') {
-      return { id: p, name: p };
-    }
-    return {
-      id: p.id || `person_${index}`,
-      name: p.name || p.id || `Person ${index + 1}`,
-      handle: p.handle
-    };
-  });
-
-  const items: Item[] = data.items.map((item: any, index: number) => ({
-    id: item.id || `item_${index}`,
-    name: item.name || `Item ${index + 1}`,
-    price: item.price || item.total || item.total_price || 0,
-    category: item.category,
-    payers: Array.isArray(item.payers) ? item.payers : 
-           (item.shares ? Object.keys(item.shares) : []),
-    meta: item.meta
-  }));
+  const fileQuote = (data.quote ?? quote).toUpperCase();
+  const rate = Number(data.rates ? data.rates[fileQuote] : data.rate);
+  if (!(rate > 0)) {
+    throw new Error(`Rate file has no positive ${base.toUpperCase()} → ${fileQuote} rate`);
+  }
 
   return {
-    title: data.title,
-    storeName: data.storeName || data.store,
-    purchasedAt: data.purchasedAt || data.purchased_at,
-    currency: data.currency || 'USD',
-    taxTotal: data.taxTotal || data.tax?.amount || 0,
-    items,
-    people
+    currency: fileQuote,
+    rate,
+    rateDate: typeof data.date === 'string' ? data.date : undefined,
+    source: 'imported'
   };
 }
 
-export function validateDraft(draft: ReceiptDraft): string[] {
-  const warnings: string[] = [];
+// Checks that quantity, unit price and line total agree, and that unit claims
+// account for every unit on the line.
+function validateQuantities(item: Item, currency: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const target = { itemId: item.id };
+  const quantity = item.quantity ?? 1;
+
+  if (quantity < 0) {
+    diagnostics.push(diagnostic('negative-quantity', `Item "${item.name}" has negative quantity`, target));
+  }
+
+  if (item.unitPrice !== undefined) {
+    const expected = roundMoney(quantity * item.unitPrice, currency);
+    if (Math.abs(expected - item.price) >= minorUnit(currency) / 2) {
+      diagnostics.push(diagnostic(
+        'quantity-mismatch',
+        `Item "${item.name}": ${quantity} × ${formatMoney(item.unitPrice, currency)} = ${formatMoney(expected, currency)} does not match line total ${formatMoney(item.price, currency)}`,
+        target
+      ));
+    }
+  }
+
+  if (hasUnitClaims(item)) {
+    const claimed = Object.values(item.unitClaims ?? {})
+      .filter(units => units > 0)
+      .reduce((sum, units) => sum + units, 0);
+    if (claimed < quantity) {
+      diagnostics.push(diagnostic(
+        'unclaimed-units',
+        `Only ${claimed} of ${quantity} units of "${item.name}" are claimed; the line total is split across claimed units`,
+        target
+      ));
+    } else if (claimed > quantity) {
+      diagnostics.push(diagnostic(
+        'overclaimed-units',
+        `${claimed} units of "${item.name}" are claimed but the line only has ${quantity}`,
+        target
+      ));
+    }
+  }
+
+  return diagnostics;
+}
+
+export function validateDraft(draft: ReceiptDraft): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const report = (code: DiagnosticCode, message: string, target?: DiagnosticTarget) => {
+    diagnostics.push(diagnostic(code, message, target));
+  };
+  const isKnownPerson = (personId: string) => draft.people.some(p => p.id === personId);
 
   // Validate tax
   if (draft.taxTotal < 0) {
-    warnings.push('Tax cannot be negative');
+    report('negative-tax', 'Tax cannot be negative');
+  }
+
+  if (!isKnownCurrency(draft.currency)) {
+    report('unknown-currency', `Unknown currency code "${draft.currency}" - amounts use 2 decimals`);
+  }
+
+  if (draft.settlement) {
+    const { currency, rate } = draft.settlement;
+    if (!isKnownCurrency(currency)) {
+      report('unknown-settlement-currency', `Unknown settlement currency "${currency}"`);
+    } else if (currency.toUpperCase() === draft.currency.toUpperCase()) {
+      report('same-settlement-currency', `Settlement currency is the same as the receipt currency (${currency})`);
+    }
+    if (!(rate > 0)) {
+      report('invalid-exchange-rate', `Enter a positive ${draft.currency} → ${currency} exchange rate`);
+    }
+  }
+
+  for (const payment of draft.payments ?? []) {
+    if (payment.amount < 0) {
+      report('negative-payment', 'Payments cannot be negative', { personId: payment.personId });
+    }
+    if (!isKnownPerson(payment.personId)) {
+      report('unknown-person', `Unknown person "${payment.personId}" recorded as a payer`, { personId: payment.personId });
+    }
+  }
+
+  const absorberId = draft.rounding?.residual === 'payer' ? draft.rounding.absorberId : undefined;
+  if (absorberId && !isKnownPerson(absorberId)) {
+    report('unknown-person', `Unknown person "${absorberId}" set to absorb rounding`, { personId: absorberId });
+  }
+
+  // Validate tax rates
+  const negativeRates = [
+    draft.defaultTaxRate,
+    ...Object.values(draft.categoryTaxRates ?? {}),
+    ...draft.items.map(item => item.taxRate)
+  ].some(rate => rate !== undefined && rate < 0);
+  if (negativeRates) {
+    report('negative-tax-rate', 'Tax rates cannot be negative');
+  }
+
+  // Validate order-level charges
+  for (const charge of draft.charges ?? []) {
+    const target = { chargeId: charge.id };
+    if (charge.percent ? charge.percent.rate < 0 : charge.amount < 0) {
+      report('negative-charge', `Charge "${charge.name}" cannot be negative`, target);
+    }
+    if (charge.allocation === 'assigned') {
+      if (!charge.assignedTo || charge.assignedTo.length === 0) {
+        report('unassigned-charge', `Charge "${charge.name}" is not assigned to anyone`, target);
+      }
+      for (const personId of charge.assignedTo ?? []) {
+        if (!isKnownPerson(personId)) {
+          report('unknown-person', `Unknown person "${personId}" assigned to charge "${charge.name}"`, { ...target, personId });
+        }
+      }
+    }
+  }
+
+  // Validate discounts
+  const discountAmounts = resolveDiscountAmounts(draft);
+  for (const discount of draft.discounts ?? []) {
+    const target = { discountId: discount.id, itemId: discount.itemId };
+    if (discount.percent !== undefined ? discount.percent < 0 || discount.percent > 100 : discount.amount < 0) {
+      report('invalid-discount', `Discount "${discount.name}" must take off a positive amount`, target);
+    }
+    if (discount.itemId) {
+      const item = draft.items.find(i => i.id === discount.itemId);
+      if (!item) {
+        report('orphaned-discount', `Discount "${discount.name}" is attached to an item that no longer exists`, { discountId: discount.id });
+      } else if ((discountAmounts.get(discount.id) ?? 0) > item.price) {
+        report('discount-exceeds-item', `Discount "${discount.name}" is larger than the price of "${item.name}"`, target);
+      }
+    } else if (discount.allocation === 'assigned') {
+      if (!discount.assignedTo || discount.assignedTo.length === 0) {
+        report('unassigned-discount', `Discount "${discount.name}" is not assigned to anyone`, target);
+      }
+      for (const personId of discount.assignedTo ?? []) {
+        if (!isKnownPerson(personId)) {
+          report('unknown-person', `Unknown person "${personId}" assigned to discount "${discount.name}"`, { ...target, personId });
+        }
+      }
+    }
   }
 
   // Validate items
   for (const item of draft.items) {
+    const target = { itemId: item.id };
     if (item.price < 0) {
-      warnings.push(`Item "${item.name}" has negative price`);
+      report('negative-price', `Item "${item.name}" has negative price - add it as a discount instead`, target);
     }
+    diagnostics.push(...validateQuantities(item, draft.currency));
     if (item.payers.length === 0) {
-      warnings.push(`Item "${item.name}" has no payers assigned - assign payers to include in calculations`);
+      report('no-payers', `Item "${item.name}" has no payers assigned - assign payers to include in calculations`, target);
     }
 
     // Check if all payers exist in people bank
     for (const payerId of item.payers) {
-      if (!draft.people.find(p => p.id === payerId)) {
-        warnings.push(`Unknown payer "${payerId}" for item "${item.name}"`);
+      if (!isKnownPerson(payerId)) {
+        report('unknown-payer', `Unknown payer "${payerId}" for item "${item.name}"`, { ...target, personId: payerId });
+      }
+    }
+
+    if (item.payers.length > 0) {
+      const { norm, diagnostics: shareDiagnostics } = normalizeShares(item);
+      diagnostics.push(...shareDiagnostics);
+      if (norm.size === 0) {
+        report('no-valid-payers', `Item "${item.name}" has no valid payers—assign at least one with a positive weight`, target);
       }
     }
   }
 
   // Check for duplicate person IDs
   const personIds = draft.people.map(p => p.id);
-  const duplicateIds = personIds.filter((id, index) => personIds.indexOf(id) !== index);
-  if (duplicateIds.length > 0) {
-    warnings.push(`Duplicate person IDs: ${duplicateIds.join(', ')}`);
+  const duplicateIds = [...new Set(personIds.filter((id, index) => personIds.indexOf(id) !== index))];
+  for (const personId of duplicateIds) {
+    report('duplicate-person-id', `Duplicate person ID: ${personId}`, { personId });
   }
 
-  return warnings;
-}
\ No newline at end of file
+  return diagnostics;
+}
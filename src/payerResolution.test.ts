@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import type { ReceiptDraft } from './types';
+import { applyPayerResolutions } from './payerResolution';
+import { compute } from './calculator';
+
+// Bob came in by name from an import and claimed two of the three units
+const imported: ReceiptDraft = {
+  currency: 'USD',
+  taxTotal: 0,
+  items: [
+    { id: 'wings', name: 'Wings', price: 12, quantity: 3, payers: ['a', 'Bob'], unitClaims: { a: 1, Bob: 2 } },
+    { id: 'beer', name: 'Beer', price: 10, payers: ['a', 'Bob'], weights: { Bob: 3 } }
+  ],
+  people: [{ id: 'a', name: 'Alice' }]
+};
+
+const totals = (draft: ReceiptDraft) =>
+  Object.fromEntries(compute(draft).perPerson.map(person => [person.personId, person.total]));
+
+describe('applyPayerResolutions', () => {
+  it("moves a created person's unit claims and weights to their new ID", () => {
+    const { draft, created } = applyPayerResolutions(imported, { Bob: { action: 'create', name: 'Bob' } }, [], () => 'bob');
+
+    expect(created).toEqual([{ id: 'bob', name: 'Bob' }]);
+    expect(draft.items[0]).toMatchObject({ payers: ['a', 'bob'], unitClaims: { a: 1, bob: 2 } });
+    expect(draft.items[1]).toMatchObject({ payers: ['a', 'bob'], weights: { bob: 3 } });
+    expect(totals(draft)).toEqual({ a: 6.5, bob: 15.5 });
+    expect(compute(draft).diagnostics.map(d => d.code)).not.toContain('ignored-weights');
+  });
+
+  it('maps a name onto someone from the directory', () => {
+    const bob = { id: 'person_bob', name: 'Robert' };
+    const { draft } = applyPayerResolutions(imported, { Bob: { action: 'map', personId: bob.id } }, [bob], () => 'unused');
+
+    expect(draft.people).toEqual([...imported.people, bob]);
+    expect(draft.items[0].unitClaims).toEqual({ a: 1, person_bob: 2 });
+  });
+
+  it("drops an ignored name's unit claims and weights", () => {
+    const { draft } = applyPayerResolutions(imported, { Bob: { action: 'ignore' } }, [], () => 'unused');
+
+    expect(draft.items[0]).toMatchObject({ payers: ['a'], unitClaims: { a: 1 } });
+    expect(draft.items[1].weights).toBeUndefined();
+    expect(totals(draft)).toEqual({ a: 22 });
+  });
+});
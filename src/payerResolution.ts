@@ -0,0 +1,197 @@
+import type { Item, PayerAlias, Person, ReceiptDraft } from './types';
+
+// Payer names from an import that don't match anyone on the receipt stay on
+// their items by name until the user creates a person for them, maps them to
+// someone they already know, or drops them.
+
+export type PayerResolution =
+  | { action: 'create'; name: string }
+  | { action: 'map'; personId: string }
+  | { action: 'ignore' };
+
+export type PersonSuggestion = {
+  person: Person;
+  score: number; // 0-1, higher is a closer match
+  reason: 'alias' | 'name' | 'nickname' | 'prefix' | 'spelling';
+};
+
+// Common short forms, both directions are checked
+const NICKNAMES: Record<string, string[]> = {
+  alexander: ['alex', 'xander'],
+  alexandra: ['alex', 'sasha'],
+  andrew: ['andy', 'drew'],
+  benjamin: ['ben', 'benny'],
+  christopher: ['chris', 'topher'],
+  daniel: ['dan', 'danny'],
+  elizabeth: ['liz', 'beth', 'lizzie', 'eliza'],
+  jennifer: ['jen', 'jenny'],
+  james: ['jim', 'jimmy', 'jamie'],
+  jonathan: ['jon', 'jonny'],
+  katherine: ['kate', 'katie', 'kat', 'kathy'],
+  kevin: ['kev'],
+  margaret: ['maggie', 'meg', 'peggy'],
+  michael: ['mike', 'mikey'],
+  nicholas: ['nick', 'nicky'],
+  rebecca: ['becca', 'becky'],
+  richard: ['rick', 'rich', 'dick'],
+  robert: ['rob', 'bob', 'bobby', 'robbie'],
+  samantha: ['sam'],
+  samuel: ['sam'],
+  thomas: ['tom', 'tommy'],
+  william: ['will', 'bill', 'billy', 'liam']
+};
+
+export function normalizeAlias(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// Payer IDs on the items that aren't anyone on the receipt, in the order they first appear
+export function unknownPayers(draft: ReceiptDraft): string[] {
+  const known = new Set(draft.people.map(person => person.id));
+  const unknown: string[] = [];
+  for (const item of draft.items) {
+    for (const payer of item.payers) {
+      if (!known.has(payer) && !unknown.includes(payer)) unknown.push(payer);
+    }
+  }
+  return unknown;
+}
+
+// Edits to turn `a` into `b`, counting a swap of neighbouring letters as one
+function editDistance(a: string, b: string): number {
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function isNickname(a: string, b: string): boolean {
+  return NICKNAMES[a]?.includes(b) || NICKNAMES[b]?.includes(a) || false;
+}
+
+function matchScore(name: string, person: Person): Pick<PersonSuggestion, 'score' | 'reason'> | undefined {
+  const typed = normalizeAlias(name);
+  const full = normalizeAlias(person.name);
+  if (typed === full || typed === normalizeAlias(person.id)) return { score: 1, reason: 'name' };
+
+  const [typedFirst] = typed.split(' ');
+  const [first] = full.split(' ');
+  if (isNickname(typedFirst, first)) return { score: 0.9, reason: 'nickname' };
+  if (typedFirst === first) return { score: 0.85, reason: 'name' };
+  if (typed.length >= 3 && full.startsWith(typed)) return { score: 0.8, reason: 'prefix' };
+
+  const spelling = 1 - editDistance(typed, full) / Math.max(typed.length, full.length);
+  const firstSpelling = 1 - editDistance(typedFirst, first) / Math.max(typedFirst.length, first.length);
+  const score = Math.max(spelling, firstSpelling * 0.9);
+  return score >= 0.6 ? { score, reason: 'spelling' } : undefined;
+}
+
+// Best guesses for who an unknown payer name means, a remembered alias first
+export function suggestPeople(
+  name: string,
+  people: Person[],
+  aliases: PayerAlias[],
+  limit = 3
+): PersonSuggestion[] {
+  const suggestions: PersonSuggestion[] = [];
+  const alias = aliases.find(a => a.alias === normalizeAlias(name));
+  const aliased = alias && people.find(person => person.id === alias.personId);
+  if (aliased) suggestions.push({ person: aliased, score: 1, reason: 'alias' });
+
+  for (const person of people) {
+    if (person === aliased) continue;
+    const match = matchScore(name, person);
+    if (match) suggestions.push({ person, ...match });
+  }
+  return suggestions.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+// Names a remembered alias or an exact name match settles without asking
+export function automaticResolutions(
+  names: string[],
+  people: Person[],
+  aliases: PayerAlias[]
+): Record<string, PayerResolution> {
+  const resolutions: Record<string, PayerResolution> = {};
+  for (const name of names) {
+    const [best] = suggestPeople(name, people, aliases, 1);
+    if (best && (best.reason === 'alias' || best.score === 1)) {
+      resolutions[name] = { action: 'map', personId: best.person.id };
+    }
+  }
+  return resolutions;
+}
+
+// Moves `from`'s entry in a weights or unit claims record over to `to`,
+// dropping it when there is nowhere to move it
+function movedEntry(record: Record<string, number> | undefined, from: string, to: string | undefined) {
+  if (!record) return undefined;
+  const { [from]: value, ...rest } = record;
+  if (to !== undefined && value !== undefined) rest[to] = value;
+  return Object.keys(rest).length > 0 ? rest : undefined;
+}
+
+function renamePayer(item: Item, from: string, to: string | undefined): Item {
+  if (!item.payers.includes(from)) return item;
+
+  // The name keeps its place in the list unless the person is already on the item
+  const duplicate = to === undefined || item.payers.includes(to);
+  const payers = duplicate
+    ? item.payers.filter(payer => payer !== from)
+    : item.payers.map(payer => payer === from ? to : payer);
+  const target = duplicate ? undefined : to;
+  return {
+    ...item,
+    payers,
+    weights: movedEntry(item.weights, from, target),
+    unitClaims: movedEntry(item.unitClaims, from, target)
+  };
+}
+
+// Applies the choices for each unknown name. `people` is everyone a name can
+// be mapped to; those not yet on the receipt are added to it.
+export function applyPayerResolutions(
+  draft: ReceiptDraft,
+  resolutions: Record<string, PayerResolution>,
+  people: Person[],
+  newId: () => string
+): { draft: ReceiptDraft; created: Person[]; personIds: Record<string, string> } {
+  let items = draft.items;
+  const receiptPeople = [...draft.people];
+  const created: Person[] = [];
+  const personIds: Record<string, string> = {}; // name -> the person it now points at
+
+  for (const [name, resolution] of Object.entries(resolutions)) {
+    let personId: string | undefined;
+    if (resolution.action === 'create') {
+      const person = { id: newId(), name: resolution.name.trim() || name };
+      created.push(person);
+      receiptPeople.push(person);
+      personId = person.id;
+    } else if (resolution.action === 'map') {
+      const person = receiptPeople.find(p => p.id === resolution.personId)
+        ?? people.find(p => p.id === resolution.personId);
+      if (!person) continue;
+      if (!receiptPeople.includes(person)) receiptPeople.push(person);
+      personId = person.id;
+    }
+    if (personId) personIds[name] = personId;
+    items = items.map(item => renamePayer(item, name, personId));
+  }
+
+  return { draft: { ...draft, items, people: receiptPeople }, created, personIds };
+}
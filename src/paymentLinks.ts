@@ -0,0 +1,134 @@
+import Decimal from 'decimal.js';
+import type { PaymentMethod, Person } from './types';
+import { currencyExponent, formatMoney } from './currency';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['venmo', 'paypal', 'cashapp', 'bank'];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  venmo: 'Venmo',
+  paypal: 'PayPal.me',
+  cashapp: 'Cash App',
+  bank: 'IBAN / reference'
+};
+
+// Currencies each service can request money in; missing means any
+const METHOD_CURRENCIES: Partial<Record<PaymentMethod, string[]>> = {
+  venmo: ['USD'],
+  cashapp: ['USD', 'GBP']
+};
+
+// Strips what people tend to paste along with a handle: profile URLs, "@" and "$"
+export function normalizeHandle(method: PaymentMethod, value: string): string {
+  const trimmed = value.trim();
+  switch (method) {
+    case 'venmo':
+      return trimmed.replace(/^(https?:\/\/)?(www\.)?venmo\.com\/(u\/)?/i, '').replace(/^@/, '');
+    case 'paypal':
+      return trimmed.replace(/^(https?:\/\/)?(www\.)?paypal\.me\//i, '').replace(/\/.*$/, '');
+    case 'cashapp':
+      return trimmed.replace(/^(https?:\/\/)?(www\.)?cash\.app\//i, '').replace(/^\$/, '');
+    case 'bank':
+      return trimmed;
+  }
+}
+
+// Sorts a free-form handle from before handles were kept per service
+export function handlesFromLegacy(handle: string): Person['handles'] {
+  const value = handle.trim();
+  if (!value) return undefined;
+  const method: PaymentMethod =
+    /paypal\.me\//i.test(value) ? 'paypal' :
+    /cash\.app\//i.test(value) || value.startsWith('$') ? 'cashapp' :
+    /venmo\.com\//i.test(value) || value.startsWith('@') ? 'venmo' :
+    'bank';
+  return { [method]: normalizeHandle(method, value) };
+}
+
+export type PaymentRequest = {
+  method: PaymentMethod;
+  handle: string;
+  url?: string; // opens the service with the amount filled in
+  qrText: string; // what the QR code encodes
+};
+
+// Plain amount for URLs, e.g. "12.50" or "1300" for JPY
+function plainAmount(amount: number, currency: string): string {
+  return new Decimal(amount).toFixed(currencyExponent(currency));
+}
+
+// The EPC "SEPA credit transfer" payload banking apps read from a QR code
+function epcPayload(name: string, iban: string, amount: number, remittance: string): string {
+  return [
+    'BCD', '002', '1', 'SCT', '',
+    name.slice(0, 70),
+    iban.replace(/\s+/g, '').toUpperCase(),
+    `EUR${plainAmount(amount, 'EUR')}`,
+    '', '',
+    remittance.slice(0, 140)
+  ].join('\n');
+}
+
+const IBAN_PATTERN = /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/;
+
+// Links and QR contents for paying `payee`, one per handle they have set up
+export function paymentRequests(
+  payee: Person,
+  amount: number,
+  currency: string,
+  note: string
+): PaymentRequest[] {
+  const code = currency.toUpperCase();
+  const value = plainAmount(amount, code);
+  const requests: PaymentRequest[] = [];
+
+  for (const method of PAYMENT_METHODS) {
+    const raw = payee.handles?.[method];
+    if (!raw?.trim()) continue;
+    const handle = normalizeHandle(method, raw);
+    const currencies = METHOD_CURRENCIES[method];
+    if (currencies && !currencies.includes(code)) continue;
+
+    let url: string | undefined;
+    let qrText: string;
+    switch (method) {
+      case 'venmo':
+        url = `https://venmo.com/${encodeURIComponent(handle)}?txn=pay&amount=${value}&note=${encodeURIComponent(note)}`;
+        qrText = url;
+        break;
+      case 'paypal':
+        url = `https://paypal.me/${encodeURIComponent(handle)}/${value}${code}`;
+        qrText = url;
+        break;
+      case 'cashapp':
+        url = `https://cash.app/$${encodeURIComponent(handle)}/${value}`;
+        qrText = url;
+        break;
+      case 'bank': {
+        const iban = handle.replace(/\s+/g, '').toUpperCase();
+        qrText = code === 'EUR' && IBAN_PATTERN.test(iban)
+          ? epcPayload(payee.name, iban, amount, note)
+          : `${handle}\n${formatMoney(amount, code)}\n${note}`;
+        break;
+      }
+    }
+    requests.push({ method, handle, url, qrText });
+  }
+
+  return requests;
+}
+
+// Prefilled text the payee can send along with their links
+export function paymentMessage(
+  payerName: string,
+  payeeName: string,
+  amount: number,
+  currency: string,
+  receiptTitle: string,
+  requests: PaymentRequest[]
+): string {
+  const lines = [`Hi ${payerName}, you owe ${payeeName} ${formatMoney(amount, currency)} for ${receiptTitle}.`];
+  for (const request of requests) {
+    lines.push(`${PAYMENT_METHOD_LABELS[request.method]}: ${request.url ?? request.handle}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,149 @@
+import Decimal from 'decimal.js';
+import type {
+  Diagnostic,
+  Item,
+  ReceiptDraft,
+  ReconciliationSuggestion,
+  TotalsComparison,
+  TotalsReconciliation
+} from './types';
+import { currencyExponent, formatMoney, formatMoneyDelta, roundMoney } from './currency';
+import { diagnostic } from './diagnostics';
+
+// Checks the entered items against the subtotal and total printed on the
+// paper receipt, and guesses at the typo or skipped line behind a mismatch.
+
+function compare(computed: Decimal, printed: number | undefined, currency: string): TotalsComparison | undefined {
+  if (printed === undefined) return undefined;
+  return {
+    computed: computed.toNumber(),
+    printed,
+    difference: roundMoney(computed.minus(printed).toNumber(), currency)
+  };
+}
+
+// Prices one swap of neighbouring digits would give, e.g. 12.43 for 12.34
+function transpositions(price: number, currency: string): number[] {
+  const scale = new Decimal(10).pow(currencyExponent(currency));
+  const digits = new Decimal(price).abs().times(scale).toFixed(0);
+  const prices = new Set<number>();
+  for (let i = 0; i + 1 < digits.length; i++) {
+    if (digits[i] === digits[i + 1]) continue;
+    const swapped = digits.slice(0, i) + digits[i + 1] + digits[i] + digits.slice(i + 2);
+    prices.add(new Decimal(swapped).dividedBy(scale).toNumber());
+  }
+  return Array.from(prices);
+}
+
+function sameLine(a: Item, b: Item): boolean {
+  return a.price === b.price && a.name.trim().toLowerCase() === b.name.trim().toLowerCase();
+}
+
+// `gap` is printed - computed: positive when something is missing
+function suggestCauses(items: Item[], gap: Decimal, currency: string): ReconciliationSuggestion[] {
+  const suggestions: ReconciliationSuggestion[] = [];
+
+  // A swapped pair of digits is the likeliest cause, so it goes first
+  for (const item of items) {
+    const suggestedPrice = transpositions(item.price, currency)
+      .find(price => new Decimal(price).minus(item.price).equals(gap));
+    if (suggestedPrice !== undefined) {
+      suggestions.push({ kind: 'transposed-digits', itemId: item.id, price: item.price, suggestedPrice });
+    }
+  }
+
+  if (gap.greaterThan(0)) {
+    suggestions.push({ kind: 'missing-item', amount: gap.toNumber() });
+  } else {
+    items.forEach((item, index) => {
+      if (!gap.negated().equals(item.price)) return;
+      const original = items.slice(0, index).find(other => sameLine(other, item));
+      if (original) {
+        suggestions.push({ kind: 'duplicate-item', itemId: item.id, duplicateOf: original.id, amount: item.price });
+      } else if (!items.slice(index + 1).some(other => sameLine(other, item))) {
+        suggestions.push({ kind: 'extra-item', itemId: item.id, amount: item.price });
+      }
+    });
+  }
+
+  return suggestions;
+}
+
+// `grand` is the computed grand total in the receipt currency
+export function reconcileTotals(draft: ReceiptDraft, grand: number): TotalsReconciliation | undefined {
+  if (draft.printedSubtotal === undefined && draft.printedTotal === undefined) return undefined;
+
+  const itemsTotal = draft.items.reduce((sum, item) => sum.plus(item.price), new Decimal(0));
+  const subtotal = compare(itemsTotal, draft.printedSubtotal, draft.currency);
+  const total = compare(new Decimal(grand), draft.printedTotal, draft.currency);
+  const reconciled = (subtotal?.difference ?? 0) === 0 && (total?.difference ?? 0) === 0;
+
+  // A matching subtotal clears the items, so only guess at them when the
+  // subtotal is off or wasn't entered
+  const itemGap = subtotal ?? total;
+  const suggestions = itemGap && itemGap.difference !== 0
+    ? suggestCauses(draft.items, new Decimal(itemGap.difference).negated(), draft.currency)
+    : [];
+
+  return {
+    subtotal,
+    total,
+    reconciled,
+    overridden: !reconciled && !!draft.totalsOverride,
+    suggestions
+  };
+}
+
+export function suggestionMessage(suggestion: ReconciliationSuggestion, draft: ReceiptDraft): string {
+  const money = (n: number) => formatMoney(n, draft.currency);
+  const itemName = (itemId: string) => draft.items.find(item => item.id === itemId)?.name ?? itemId;
+
+  switch (suggestion.kind) {
+    case 'missing-item':
+      return `An item costing ${money(suggestion.amount)} may be missing`;
+    case 'extra-item':
+      return `"${itemName(suggestion.itemId)}" (${money(suggestion.amount)}) accounts for the whole difference; it may not be on this receipt`;
+    case 'duplicate-item':
+      return `"${itemName(suggestion.itemId)}" (${money(suggestion.amount)}) may have been entered twice`;
+    case 'transposed-digits':
+      return `"${itemName(suggestion.itemId)}" may be ${money(suggestion.suggestedPrice)} rather than ${money(suggestion.price)}`;
+  }
+}
+
+export function reconciliationDiagnostics(draft: ReceiptDraft, reconciliation: TotalsReconciliation): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const money = (n: number) => formatMoney(n, draft.currency);
+  const { subtotal, total } = reconciliation;
+
+  if (reconciliation.overridden) {
+    const off = [subtotal, total]
+      .filter(comparison => comparison && comparison.difference !== 0)
+      .map(comparison => formatMoneyDelta(comparison!.difference, draft.currency));
+    diagnostics.push(diagnostic(
+      'totals-overridden',
+      `Printed totals don't match (off by ${off.join(' / ')}) but the split was marked final`
+    ));
+  } else {
+    if (subtotal && subtotal.difference !== 0) {
+      diagnostics.push(diagnostic(
+        'subtotal-mismatch',
+        `Items add up to ${money(subtotal.computed)} but the printed subtotal is ${money(subtotal.printed)}`
+      ));
+    }
+    if (total && total.difference !== 0) {
+      diagnostics.push(diagnostic(
+        'total-mismatch',
+        `Grand total ${money(total.computed)} does not match the printed total ${money(total.printed)}`
+      ));
+    }
+  }
+
+  for (const suggestion of reconciliation.suggestions) {
+    diagnostics.push(diagnostic(
+      'reconciliation-hint',
+      suggestionMessage(suggestion, draft),
+      suggestion.kind === 'missing-item' ? {} : { itemId: suggestion.itemId }
+    ));
+  }
+  return diagnostics;
+}
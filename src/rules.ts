@@ -0,0 +1,115 @@
+import type { Item, PayerRule, Person, ReceiptDraft } from './types';
+
+// Payer rules fill in who pays for items by pattern, e.g. "Alcohol -> the
+// drinkers" or "anything with 'kids' -> the Smiths". The first enabled rule
+// that matches an item wins.
+
+export function newRuleId(): string {
+  return `rule_${crypto.randomUUID()}`;
+}
+
+function namePattern(rule: PayerRule): RegExp | undefined {
+  if (!rule.match.namePattern) return undefined;
+  try {
+    return new RegExp(rule.match.namePattern, 'i');
+  } catch {
+    return undefined;
+  }
+}
+
+// What keeps a rule from being used, or undefined when it's ready
+export function ruleProblem(rule: PayerRule): string | undefined {
+  const { category, nameContains, namePattern: pattern, minPrice, maxPrice } = rule.match;
+  if (!category && !nameContains && !pattern && minPrice === undefined && maxPrice === undefined) {
+    return 'Add at least one condition';
+  }
+  if (pattern && !namePattern(rule)) return 'The name pattern is not a valid regular expression';
+  if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+    return 'The lowest price is above the highest';
+  }
+  if (!rule.everyone && rule.payers.length === 0) return 'Pick who pays';
+  return undefined;
+}
+
+export function ruleMatches(rule: PayerRule, item: Item): boolean {
+  const { category, nameContains, minPrice, maxPrice } = rule.match;
+  if (category && category.trim().toLowerCase() !== (item.category ?? '').trim().toLowerCase()) return false;
+  if (nameContains && !item.name.toLowerCase().includes(nameContains.toLowerCase())) return false;
+  if (rule.match.namePattern && !namePattern(rule)?.test(item.name)) return false;
+  if (minPrice !== undefined && item.price < minPrice) return false;
+  if (maxPrice !== undefined && item.price > maxPrice) return false;
+  return true;
+}
+
+// The payers a rule gives on this receipt; undefined when none of them are on it
+function ruleAssignment(rule: PayerRule, people: Person[]): Pick<Item, 'payers' | 'weights'> | undefined {
+  const payers = rule.everyone
+    ? people.map(person => person.id)
+    : rule.payers.filter(payerId => people.some(person => person.id === payerId));
+  if (payers.length === 0) return undefined;
+
+  const weights = Object.fromEntries(
+    Object.entries(rule.weights ?? {}).filter(([payerId, weight]) => payers.includes(payerId) && weight !== 1)
+  );
+  return { payers, weights: Object.keys(weights).length > 0 ? weights : undefined };
+}
+
+function sameWeights(a: Pick<Item, 'weights'>, b: Pick<Item, 'weights'>): boolean {
+  const aWeights = a.weights ?? {};
+  const bWeights = b.weights ?? {};
+  return Object.keys(aWeights).length === Object.keys(bWeights).length &&
+    Object.entries(aWeights).every(([payerId, weight]) => bWeights[payerId] === weight);
+}
+
+// Short description of a rule's conditions, e.g. `category "Alcohol", over $20`
+export function describeRuleMatch(rule: PayerRule, formatPrice: (n: number) => string): string {
+  const { category, nameContains, namePattern: pattern, minPrice, maxPrice } = rule.match;
+  const parts: string[] = [];
+  if (category) parts.push(`category "${category}"`);
+  if (nameContains) parts.push(`name has "${nameContains}"`);
+  if (pattern) parts.push(`name matches /${pattern}/`);
+  if (minPrice !== undefined && maxPrice !== undefined) {
+    parts.push(`${formatPrice(minPrice)}–${formatPrice(maxPrice)}`);
+  } else if (minPrice !== undefined) {
+    parts.push(`${formatPrice(minPrice)} or more`);
+  } else if (maxPrice !== undefined) {
+    parts.push(`up to ${formatPrice(maxPrice)}`);
+  }
+  return parts.join(', ');
+}
+
+// Runs the rules over items nobody has been assigned to, and over items an
+// earlier run assigned so changed rules take effect. Payers picked by hand are
+// left alone. Returns the same draft when no rule applies.
+export function applyPayerRules(draft: ReceiptDraft, rules: PayerRule[]): { draft: ReceiptDraft; assigned: number } {
+  const usable = rules.filter(rule => rule.enabled && !ruleProblem(rule));
+  let assigned = 0;
+
+  const items = draft.items.map(item => {
+    if (item.payers.length > 0 && !item.assignedBy) return item;
+    for (const rule of usable) {
+      if (!ruleMatches(rule, item)) continue;
+      const assignment = ruleAssignment(rule, draft.people);
+      if (!assignment) continue;
+
+      // A repeat run that changes nothing keeps the item as it was
+      if (
+        item.assignedBy?.ruleId === rule.id && item.assignedBy.ruleName === rule.name &&
+        !item.unitClaims && sameWeights(item, assignment) &&
+        item.payers.join() === assignment.payers.join()
+      ) {
+        return item;
+      }
+      assigned++;
+      return {
+        ...item,
+        ...assignment,
+        unitClaims: undefined,
+        assignedBy: { ruleId: rule.id, ruleName: rule.name }
+      };
+    }
+    return item;
+  });
+
+  return assigned > 0 ? { draft: { ...draft, items }, assigned } : { draft, assigned };
+}
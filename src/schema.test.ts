@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import type { ReceiptDraft } from './types';
+import { DRAFT_FORMAT_VERSION, SchemaError, parseDraftFile, serializeDraft } from './schema';
+import { compute } from './calculator';
+
+// Catches the error so its issues can be checked
+function issuesOf(json: unknown) {
+  try {
+    parseDraftFile(json);
+  } catch (error) {
+    expect(error).toBeInstanceOf(SchemaError);
+    return (error as SchemaError).issues;
+  }
+  throw new Error('expected the file to be rejected');
+}
+
+const currentFile = {
+  formatVersion: DRAFT_FORMAT_VERSION,
+  currency: 'USD',
+  taxTotal: 1,
+  items: [
+    { id: 'tea', name: 'Tea', price: 3, payers: ['alice'] },
+    { id: 'cake', name: 'Cake', price: 5, payers: ['alice', 'bob'] },
+    { id: 'pie', name: 'Pie', price: 4, payers: ['bob'] },
+    { id: 'soup', name: 'Soup', price: 6, payers: ['bob'] }
+  ],
+  people: [{ id: 'alice', name: 'Alice' }, { id: 'bob', name: 'Bob' }]
+};
+
+describe('parseDraftFile migrations', () => {
+  it('upgrades an unversioned export with single payment handles', () => {
+    const { draft, formatVersion } = parseDraftFile({
+      currency: 'USD',
+      taxTotal: 0.8,
+      items: [{ id: 'tea', name: 'Tea', price: 3, payers: ['alice', 'bob'], weights: { alice: 2 } }],
+      people: [{ id: 'alice', name: 'Alice', handle: '@alice' }, { id: 'bob', name: 'Bob' }],
+      charges: [{ id: 'tip', name: 'Tip', kind: 'tip', amount: 1, allocation: 'equal' }]
+    });
+    expect(formatVersion).toBe(1);
+    expect(draft.items[0]).toMatchObject({ price: 3, payers: ['alice', 'bob'], weights: { alice: 2 } });
+    expect(draft.people[0].handles?.venmo).toBeDefined();
+    expect(draft.people[0]).not.toHaveProperty('handle');
+    expect(draft.charges?.[0]).toMatchObject({ kind: 'tip', amount: 1, allocation: 'equal' });
+  });
+
+  it('reads the spec shape with shares, order-level charges and negative discounts', () => {
+    const { draft } = parseDraftFile({
+      store: 'Corner Cafe',
+      purchased_at: '2024-05-01',
+      currency: 'USD',
+      tax: { amount: 1.2 },
+      items: [
+        { name: 'Pizza', qty: 2, unit_price: 7.5, shares: { kev: 2, ana: { weight: 1 } } },
+        { name: 'Water', total: 2, shares: { ana: 1 }, taxable: false }
+      ],
+      people: ['kev', 'ana'],
+      order_level: {
+        fees: [{ name: 'Delivery fee', amount: 3 }],
+        tip: { amount: 4, allocation_basis: 'participants' },
+        discounts: [{ name: 'Coupon', amount: -2 }]
+      }
+    });
+    expect(draft.storeName).toBe('Corner Cafe');
+    expect(draft.purchasedAt).toBe('2024-05-01');
+    expect(draft.taxTotal).toBe(1.2);
+    expect(draft.items[0]).toMatchObject({
+      id: 'item_0', price: 15, quantity: 2, unitPrice: 7.5, payers: ['kev', 'ana'], weights: { kev: 2 }
+    });
+    expect(draft.items[1]).toMatchObject({ price: 2, taxExempt: true, payers: ['ana'] });
+    expect(draft.people).toEqual([{ id: 'kev', name: 'kev' }, { id: 'ana', name: 'ana' }]);
+    expect(draft.charges).toMatchObject([
+      { kind: 'delivery', amount: 3, allocation: 'proportional' },
+      { kind: 'tip', name: 'Tip', amount: 4, allocation: 'equal' }
+    ]);
+    expect(draft.discounts).toMatchObject([{ name: 'Coupon', amount: 2 }]);
+  });
+
+  it('rejects files from a newer version of the app', () => {
+    expect(issuesOf({ ...currentFile, formatVersion: DRAFT_FORMAT_VERSION + 1 })).toEqual([{
+      path: 'formatVersion',
+      message: `is ${DRAFT_FORMAT_VERSION + 1}, but this version of the app reads up to ${DRAFT_FORMAT_VERSION}`
+    }]);
+  });
+});
+
+describe('parseDraftFile validation', () => {
+  it('rejects unknown fields at every level', () => {
+    const file = {
+      ...currentFile,
+      note: 'hi',
+      items: currentFile.items.map((item, index) => index === 1 ? { ...item, cost: 5 } : item),
+      people: [...currentFile.people, { id: 'cara', name: 'Cara', handles: { zelle: 'cara' } }]
+    };
+    expect(issuesOf(file)).toEqual([
+      { path: 'note', message: 'is not a known field' },
+      { path: 'items[1].cost', message: 'is not a known field' },
+      { path: 'people[2].handles.zelle', message: 'is not a known field' }
+    ]);
+  });
+
+  it('names the path of each bad value', () => {
+    const file = {
+      ...currentFile,
+      items: currentFile.items.map((item, index) => index === 3 ? { ...item, price: '6.00' } : item)
+    };
+    const issues = issuesOf(file);
+    expect(issues).toEqual([{ path: 'items[3].price', message: 'must be a number' }]);
+    expect(() => parseDraftFile(file)).toThrow('Invalid receipt file: items[3].price must be a number');
+  });
+
+  it('reports a missing price instead of reading it as zero', () => {
+    const noPrice = { id: 'tea', name: 'Tea', payers: ['alice'] };
+    expect(issuesOf({ ...currentFile, items: [noPrice] })).toEqual([{ path: 'items[0].price', message: 'is required' }]);
+  });
+
+  it('reports bad spec shares by person', () => {
+    const issues = issuesOf({ currency: 'USD', items: [{ name: 'Fries', price: 4, shares: { kev: -1 } }], people: ['kev'] });
+    expect(issues).toContainEqual({ path: 'items[0].shares.kev', message: 'must be a positive number' });
+  });
+});
+
+describe('serializeDraft', () => {
+  it('round-trips a draft with its calculation result', () => {
+    const draft: ReceiptDraft = {
+      title: 'Dinner',
+      currency: 'EUR',
+      taxTotal: 2,
+      rounding: { method: 'half-even', residual: 'payer', absorberId: 'alice' },
+      payments: [{ personId: 'alice', amount: 20 }],
+      charges: [{ id: 'svc', name: 'Service', kind: 'service', amount: 0, percent: { rate: 10, basis: 'pre-tax' }, allocation: 'proportional' }],
+      discounts: [{ id: 'd1', name: 'Member', amount: 1, itemId: 'cake', allocation: 'proportional', taxBasis: 'post-discount' }],
+      items: [
+        { id: 'cake', name: 'Cake', price: 9, payers: ['alice', 'bob'], unitClaims: { alice: 1, bob: 2 } },
+        { id: 'wine', name: 'Wine', price: 8, payers: ['bob'], assignedBy: { ruleId: 'rule_1', ruleName: 'Drinks' } }
+      ],
+      people: [{ id: 'alice', name: 'Alice', handles: { paypal: 'alice' } }, { id: 'bob', name: 'Bob' }]
+    };
+    const result = compute(draft);
+
+    const file = JSON.parse(JSON.stringify(serializeDraft(draft, result)));
+    const parsed = parseDraftFile(file);
+
+    expect(parsed.formatVersion).toBe(DRAFT_FORMAT_VERSION);
+    expect(parsed.draft).toEqual(draft);
+    expect(parsed.calculationResult).toEqual(JSON.parse(JSON.stringify(result)));
+    expect(typeof parsed.exportedAt).toBe('string');
+  });
+});
@@ -0,0 +1,606 @@
+import type {
+  CalculationResult,
+  Charge,
+  ChargeAllocation,
+  ChargeKind,
+  Discount,
+  Item,
+  Payment,
+  PeopleDirectory,
+  PeopleGroup,
+  Person,
+  ReceiptDraft,
+  RoundingPolicy,
+  SettlementRate
+} from './types';
+import { roundMoney } from './currency';
+import { PAYMENT_METHODS, handlesFromLegacy } from './paymentLinks';
+
+// Receipt file format versions:
+// 1 - everything written before files were versioned: our own exports without
+//     `formatVersion`, and the spec's shape (`store`, `shares`, `order_level`...)
+// 2 - the ReceiptDraft fields as-is plus `formatVersion`, and optionally the
+//     `exportedAt` and `calculationResult` written on export
+// 3 - people keep a payment handle per service in `handles` instead of one `handle`
+export const DRAFT_FORMAT_VERSION = 3;
+
+// People directory file format versions:
+// 1 - `people` and `groups` as stored, plus `formatVersion` and `exportedAt`
+export const DIRECTORY_FORMAT_VERSION = 1;
+
+export type SchemaIssue = {
+  path: string; // e.g. "items[3].shares.kev"
+  message: string; // e.g. "must be a positive number"
+};
+
+export class SchemaError extends Error {
+  issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[], fileKind = 'receipt file') {
+    const shown = issues.slice(0, 5).map(issue => `${issue.path} ${issue.message}`);
+    const more = issues.length > shown.length ? ` (and ${issues.length - shown.length} more)` : '';
+    super(`Invalid ${fileKind}: ${shown.join('; ')}${more}`);
+    this.name = 'SchemaError';
+    this.issues = issues;
+  }
+}
+
+// What an exported file holds
+export type DraftFile = ReceiptDraft & {
+  formatVersion: number;
+  exportedAt?: string;
+  calculationResult?: CalculationResult | null;
+};
+
+export type ParsedDraftFile = {
+  draft: ReceiptDraft;
+  formatVersion: number; // version the file was written in, before migration
+  exportedAt?: string;
+  calculationResult?: CalculationResult | null;
+};
+
+export type DirectoryFile = PeopleDirectory & {
+  formatVersion: number;
+  exportedAt?: string;
+};
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') return `${base}[${key}]`;
+  const segment = /^[A-Za-z_$][\w$]*$/.test(key) ? key : `["${key}"]`;
+  return !base ? segment : segment.startsWith('[') ? `${base}${segment}` : `${base}.${segment}`;
+}
+
+type NumberRule = { required?: boolean; min?: number; positive?: boolean };
+
+// Typed field readers for one JSON object. Problems are collected into
+// `issues` with their path so a file reports every mistake at once.
+function fields(value: unknown, path: string, issues: SchemaIssue[], known: readonly string[]) {
+  if (!isObject(value)) {
+    issues.push({ path: path || '(root)', message: 'must be an object' });
+    return undefined;
+  }
+  for (const key of Object.keys(value)) {
+    if (!known.includes(key)) {
+      issues.push({ path: joinPath(path, key), message: 'is not a known field' });
+    }
+  }
+
+  const at = (key: string) => joinPath(path, key);
+  const fail = (fieldPath: string, message: string): undefined => {
+    issues.push({ path: fieldPath, message });
+    return undefined;
+  };
+  const problem = (key: string, message: string) => fail(at(key), message);
+  const missing = (key: string, required: boolean) => {
+    if (value[key] !== undefined && value[key] !== null) return false;
+    if (required) problem(key, 'is required');
+    return true;
+  };
+
+  const readNumber = (raw: unknown, fieldPath: string, rule: NumberRule): number | undefined => {
+    if (typeof raw !== 'number' || !Number.isFinite(raw)) {
+      return fail(fieldPath, rule.positive ? 'must be a positive number' : 'must be a number');
+    }
+    if (rule.positive && raw <= 0) return fail(fieldPath, 'must be a positive number');
+    if (rule.min !== undefined && raw < rule.min) {
+      return fail(fieldPath, rule.min === 0 ? 'must not be negative' : `must be at least ${rule.min}`);
+    }
+    return raw;
+  };
+
+  return {
+    raw: (key: string) => value[key],
+
+    string(key: string, required = false): string | undefined {
+      if (missing(key, required)) return undefined;
+      return typeof value[key] === 'string' ? value[key] : problem(key, 'must be a string');
+    },
+
+    number(key: string, rule: NumberRule = {}): number | undefined {
+      if (missing(key, rule.required ?? false)) return undefined;
+      return readNumber(value[key], at(key), rule);
+    },
+
+    boolean(key: string): boolean | undefined {
+      if (missing(key, false)) return undefined;
+      return typeof value[key] === 'boolean' ? value[key] : problem(key, 'must be true or false');
+    },
+
+    oneOf<T extends string>(key: string, options: readonly T[], required = false): T | undefined {
+      if (missing(key, required)) return undefined;
+      const option = options.find(o => o === value[key]);
+      return option ?? problem(key, `must be one of ${options.map(o => `"${o}"`).join(', ')}`);
+    },
+
+    strings(key: string): string[] | undefined {
+      if (missing(key, false)) return undefined;
+      const list = value[key];
+      if (!Array.isArray(list)) return problem(key, 'must be a list of strings');
+      list.forEach((entry, index) => {
+        if (typeof entry !== 'string') fail(joinPath(at(key), index), 'must be a string');
+      });
+      return list.filter((entry): entry is string => typeof entry === 'string');
+    },
+
+    numbers(key: string, rule: NumberRule = {}): Record<string, number> | undefined {
+      if (missing(key, false)) return undefined;
+      const record = value[key];
+      if (!isObject(record)) return problem(key, 'must be an object of numbers');
+      const result: Record<string, number> = {};
+      for (const [entryKey, entry] of Object.entries(record)) {
+        const parsed = readNumber(entry, joinPath(at(key), entryKey), rule);
+        if (parsed !== undefined) result[entryKey] = parsed;
+      }
+      return result;
+    },
+
+    list<T>(key: string, read: (entry: unknown, path: string) => T | undefined, required = false): T[] | undefined {
+      if (missing(key, required)) return undefined;
+      const list = value[key];
+      if (!Array.isArray(list)) return problem(key, 'must be a list');
+      return list
+        .map((entry, index) => read(entry, joinPath(at(key), index)))
+        .filter((entry): entry is T => entry !== undefined);
+    },
+
+    object<T>(key: string, read: (entry: unknown, path: string) => T | undefined): T | undefined {
+      if (missing(key, false)) return undefined;
+      return read(value[key], at(key));
+    }
+  };
+}
+
+const DRAFT_KEYS = [
+  'formatVersion', 'exportedAt', 'calculationResult',
+  'title', 'storeName', 'purchasedAt', 'currency', 'taxTotal', 'taxMode', 'pricesIncludeTax',
+  'defaultTaxRate', 'categoryTaxRates', 'charges', 'discounts', 'settlement', 'rounding',
+  'payments', 'printedSubtotal', 'printedTotal', 'totalsOverride', 'items', 'people'
+] as const;
+const PERSON_KEYS = ['id', 'name', 'handles'] as const;
+const GROUP_KEYS = ['id', 'name', 'memberIds'] as const;
+const DIRECTORY_KEYS = ['formatVersion', 'exportedAt', 'people', 'groups'] as const;
+const ITEM_KEYS = [
+  'id', 'name', 'price', 'quantity', 'unitPrice', 'category', 'taxRate', 'taxExempt',
+  'payers', 'weights', 'unitClaims', 'assignedBy', 'meta'
+] as const;
+const ASSIGNED_BY_KEYS = ['ruleId', 'ruleName'] as const;
+const CHARGE_KEYS = ['id', 'name', 'kind', 'amount', 'percent', 'allocation', 'assignedTo'] as const;
+const DISCOUNT_KEYS = [
+  'id', 'name', 'amount', 'percent', 'itemId', 'allocation', 'assignedTo', 'taxBasis'
+] as const;
+
+const CHARGE_KINDS: readonly ChargeKind[] = ['tip', 'service', 'delivery', 'other'];
+const CHARGE_ALLOCATIONS: readonly ChargeAllocation[] = ['proportional', 'equal', 'assigned'];
+
+function readPerson(value: unknown, path: string, issues: SchemaIssue[]): Person | undefined {
+  const f = fields(value, path, issues, PERSON_KEYS);
+  if (!f) return undefined;
+  return {
+    id: f.string('id', true) ?? '',
+    name: f.string('name', true) ?? '',
+    handles: f.object('handles', (handles, handlesPath) => {
+      const h = fields(handles, handlesPath, issues, PAYMENT_METHODS);
+      if (!h) return undefined;
+      const result: Person['handles'] = {};
+      for (const method of PAYMENT_METHODS) {
+        const handle = h.string(method);
+        if (handle !== undefined) result[method] = handle;
+      }
+      return result;
+    })
+  };
+}
+
+function readItem(value: unknown, path: string, issues: SchemaIssue[]): Item | undefined {
+  const f = fields(value, path, issues, ITEM_KEYS);
+  if (!f) return undefined;
+  const meta = f.raw('meta');
+  if (meta !== undefined && !isObject(meta)) {
+    issues.push({ path: joinPath(path, 'meta'), message: 'must be an object' });
+  }
+  return {
+    id: f.string('id', true) ?? '',
+    name: f.string('name', true) ?? '',
+    price: f.number('price', { required: true }) ?? 0,
+    quantity: f.number('quantity'),
+    unitPrice: f.number('unitPrice'),
+    category: f.string('category'),
+    taxRate: f.number('taxRate', { min: 0 }),
+    taxExempt: f.boolean('taxExempt'),
+    payers: f.strings('payers') ?? [],
+    weights: f.numbers('weights', { min: 0 }),
+    unitClaims: f.numbers('unitClaims', { min: 0 }),
+    assignedBy: f.object('assignedBy', (assignedBy, assignedByPath) => {
+      const a = fields(assignedBy, assignedByPath, issues, ASSIGNED_BY_KEYS);
+      if (!a) return undefined;
+      return { ruleId: a.string('ruleId', true) ?? '', ruleName: a.string('ruleName', true) ?? '' };
+    }),
+    meta: isObject(meta) ? meta : undefined
+  };
+}
+
+function readCharge(value: unknown, path: string, issues: SchemaIssue[]): Charge | undefined {
+  const f = fields(value, path, issues, CHARGE_KEYS);
+  if (!f) return undefined;
+  return {
+    id: f.string('id', true) ?? '',
+    name: f.string('name', true) ?? '',
+    kind: f.oneOf('kind', CHARGE_KINDS, true) ?? 'other',
+    amount: f.number('amount', { required: true }) ?? 0,
+    percent: f.object('percent', (percent, percentPath) => {
+      const p = fields(percent, percentPath, issues, ['rate', 'basis']);
+      if (!p) return undefined;
+      return {
+        rate: p.number('rate', { required: true, min: 0 }) ?? 0,
+        basis: p.oneOf('basis', ['pre-tax', 'post-tax'] as const, true) ?? 'pre-tax'
+      };
+    }),
+    allocation: f.oneOf('allocation', CHARGE_ALLOCATIONS, true) ?? 'proportional',
+    assignedTo: f.strings('assignedTo')
+  };
+}
+
+function readDiscount(value: unknown, path: string, issues: SchemaIssue[]): Discount | undefined {
+  const f = fields(value, path, issues, DISCOUNT_KEYS);
+  if (!f) return undefined;
+  return {
+    id: f.string('id', true) ?? '',
+    name: f.string('name', true) ?? '',
+    amount: f.number('amount', { required: true, min: 0 }) ?? 0,
+    percent: f.number('percent', { min: 0 }),
+    itemId: f.string('itemId'),
+    allocation: f.oneOf('allocation', ['proportional', 'assigned'] as const, true) ?? 'proportional',
+    assignedTo: f.strings('assignedTo'),
+    taxBasis: f.oneOf('taxBasis', ['pre-discount', 'post-discount'] as const, true) ?? 'post-discount'
+  };
+}
+
+function readSettlement(value: unknown, path: string, issues: SchemaIssue[]): SettlementRate | undefined {
+  const f = fields(value, path, issues, ['currency', 'rate', 'rateDate', 'source']);
+  if (!f) return undefined;
+  return {
+    currency: (f.string('currency', true) ?? '').toUpperCase(),
+    rate: f.number('rate', { required: true, positive: true }) ?? 0,
+    rateDate: f.string('rateDate'),
+    source: f.oneOf('source', ['manual', 'imported'] as const) ?? 'manual'
+  };
+}
+
+function readRounding(value: unknown, path: string, issues: SchemaIssue[]): RoundingPolicy | undefined {
+  const f = fields(value, path, issues, ['method', 'residual', 'absorberId']);
+  if (!f) return undefined;
+  return {
+    method: f.oneOf('method', ['half-up', 'half-even'] as const, true) ?? 'half-up',
+    residual: f.oneOf('residual', ['largest-remainder', 'payer', 'rotate'] as const, true) ?? 'largest-remainder',
+    absorberId: f.string('absorberId')
+  };
+}
+
+function readPayment(value: unknown, path: string, issues: SchemaIssue[]): Payment | undefined {
+  const f = fields(value, path, issues, ['personId', 'amount']);
+  if (!f) return undefined;
+  return {
+    personId: f.string('personId', true) ?? '',
+    amount: f.number('amount', { required: true, min: 0 }) ?? 0
+  };
+}
+
+function readDraft(value: unknown, issues: SchemaIssue[]): ReceiptDraft | undefined {
+  const f = fields(value, '', issues, DRAFT_KEYS);
+  if (!f) return undefined;
+  const bind = <T>(read: (entry: unknown, path: string, issues: SchemaIssue[]) => T | undefined) =>
+    (entry: unknown, path: string) => read(entry, path, issues);
+
+  return {
+    title: f.string('title'),
+    storeName: f.string('storeName'),
+    purchasedAt: f.string('purchasedAt'),
+    currency: f.string('currency', true) ?? 'USD',
+    taxTotal: f.number('taxTotal', { required: true }) ?? 0,
+    taxMode: f.oneOf('taxMode', ['order', 'rates'] as const),
+    pricesIncludeTax: f.boolean('pricesIncludeTax'),
+    defaultTaxRate: f.number('defaultTaxRate', { min: 0 }),
+    categoryTaxRates: f.numbers('categoryTaxRates', { min: 0 }),
+    charges: f.list('charges', bind(readCharge)),
+    discounts: f.list('discounts', bind(readDiscount)),
+    settlement: f.object('settlement', bind(readSettlement)),
+    rounding: f.object('rounding', bind(readRounding)),
+    payments: f.list('payments', bind(readPayment)),
+    printedSubtotal: f.number('printedSubtotal', { min: 0 }),
+    printedTotal: f.number('printedTotal', { min: 0 }),
+    totalsOverride: f.boolean('totalsOverride'),
+    items: f.list('items', bind(readItem), true) ?? [],
+    people: f.list('people', bind(readPerson), true) ?? []
+  };
+}
+
+// Reads the spec's `shares` object, where each value is a weight or `{ weight }`
+function migrateSharesV1(shares: Json, path: string, issues: SchemaIssue[]) {
+  const weights: Record<string, number> = {};
+  for (const [personId, value] of Object.entries(shares)) {
+    const weight = isObject(value) ? value.weight : value;
+    if (typeof weight !== 'number' || !(weight > 0)) {
+      issues.push({ path: joinPath(joinPath(path, 'shares'), personId), message: 'must be a positive number' });
+    } else if (weight !== 1) {
+      // Equal weights are the default, so only keep the ones that change the split
+      weights[personId] = weight;
+    }
+  }
+  return { payers: Object.keys(shares), weights: Object.keys(weights).length > 0 ? weights : undefined };
+}
+
+function migrateItemV1(item: unknown, index: number, currency: string, issues: SchemaIssue[]): unknown {
+  if (!isObject(item)) return item;
+  const path = joinPath('items', index);
+
+  const quantity = item.quantity ?? item.qty;
+  const unitPrice = item.unitPrice ?? item.unit_price;
+  let price = item.price ?? item.total ?? item.total_price;
+  if (price === undefined && typeof quantity === 'number' && typeof unitPrice === 'number') {
+    price = roundMoney(quantity * unitPrice, currency);
+  }
+
+  const shares = !Array.isArray(item.payers) && isObject(item.shares)
+    ? migrateSharesV1(item.shares, path, issues)
+    : { payers: item.payers ?? [], weights: item.weights };
+
+  return {
+    id: item.id ?? `item_${index}`,
+    name: item.name ?? `Item ${index + 1}`,
+    price,
+    quantity,
+    unitPrice,
+    category: item.category,
+    taxRate: item.taxRate,
+    taxExempt: item.taxExempt ?? (item.taxable === false ? true : undefined),
+    payers: shares.payers,
+    weights: shares.weights,
+    unitClaims: item.unitClaims,
+    meta: item.meta
+  };
+}
+
+// The spec's fees and tip, and our older charges, may leave out ids, names and kinds
+function migrateChargeV1(charge: unknown, index: number, fallbackKind: ChargeKind): unknown {
+  if (!isObject(charge)) return charge;
+  const basis = charge.allocation ?? charge.allocation_basis;
+  const allocation: ChargeAllocation =
+    basis === 'equal' || basis === 'participants' ? 'equal' :
+    basis === 'assigned' ? 'assigned' :
+    'proportional';
+  const kind = CHARGE_KINDS.find(k => k === charge.kind) ?? fallbackKind;
+
+  return {
+    id: charge.id ?? `charge_${index}`,
+    name: charge.name ?? (kind === 'tip' ? 'Tip' : `Charge ${index + 1}`),
+    kind,
+    amount: charge.amount ?? 0,
+    percent: charge.percent,
+    allocation,
+    assignedTo: allocation === 'assigned' ? charge.assignedTo : undefined
+  };
+}
+
+// The spec writes order-level discount amounts as negative numbers
+function migrateDiscountV1(discount: unknown, index: number): unknown {
+  if (!isObject(discount)) return discount;
+  const allocation = discount.allocation === 'assigned' ? 'assigned' : 'proportional';
+  return {
+    id: discount.id ?? `discount_${index}`,
+    name: discount.name ?? `Discount ${index + 1}`,
+    amount: typeof discount.amount === 'number' ? Math.abs(discount.amount) : discount.amount ?? 0,
+    percent: discount.percent,
+    itemId: discount.itemId,
+    allocation,
+    assignedTo: allocation === 'assigned' ? discount.assignedTo : undefined,
+    taxBasis: discount.taxBasis === 'pre-discount' ? 'pre-discount' : 'post-discount'
+  };
+}
+
+function migrateV1(data: Json, issues: SchemaIssue[]): Json {
+  const currency = typeof data.currency === 'string' ? data.currency : 'USD';
+  const orderLevel = isObject(data.order_level) ? data.order_level : {};
+  const tax = isObject(data.tax) ? data.tax : {};
+
+  const charges = [
+    ...(Array.isArray(data.charges) ? data.charges.map(c => [c, 'other'] as const) : []),
+    ...(Array.isArray(orderLevel.fees)
+      ? orderLevel.fees.map(fee => [
+          fee,
+          isObject(fee) && String(fee.name ?? '').toLowerCase().includes('delivery') ? 'delivery' : 'service'
+        ] as const)
+      : []),
+    ...(isObject(orderLevel.tip) ? [[orderLevel.tip, 'tip'] as const] : [])
+  ].map(([charge, kind], index) => migrateChargeV1(charge, index, kind));
+
+  const discounts = [
+    ...(Array.isArray(data.discounts) ? data.discounts : []),
+    ...(Array.isArray(orderLevel.discounts) ? orderLevel.discounts : [])
+  ].map(migrateDiscountV1);
+
+  return {
+    formatVersion: 2,
+    exportedAt: data.exportedAt,
+    calculationResult: data.calculationResult,
+    title: data.title,
+    storeName: data.storeName ?? data.store,
+    purchasedAt: data.purchasedAt ?? data.purchased_at,
+    currency,
+    taxTotal: data.taxTotal ?? tax.amount ?? 0,
+    taxMode: data.taxMode,
+    pricesIncludeTax: data.pricesIncludeTax,
+    defaultTaxRate: data.defaultTaxRate,
+    categoryTaxRates: data.categoryTaxRates,
+    charges: charges.length > 0 ? charges : undefined,
+    discounts: discounts.length > 0 ? discounts : undefined,
+    settlement: data.settlement,
+    rounding: data.rounding,
+    payments: Array.isArray(data.payments)
+      ? data.payments.map(payment => isObject(payment)
+          ? { personId: payment.personId ?? payment.person, amount: payment.amount }
+          : payment)
+      : data.payments,
+    items: Array.isArray(data.items)
+      ? data.items.map((item, index) => migrateItemV1(item, index, currency, issues))
+      : data.items,
+    people: Array.isArray(data.people)
+      ? data.people.map((person, index) => typeof person === 'string'
+          ? { id: person, name: person }
+          : isObject(person)
+            ? { id: person.id ?? `person_${index}`, name: person.name ?? person.id ?? `Person ${index + 1}`, handle: person.handle }
+            : person)
+      : data.people
+  };
+}
+
+function migrateV2(data: Json, issues: SchemaIssue[]): Json {
+  if (!Array.isArray(data.people)) return { ...data, formatVersion: 3 };
+  const people = data.people.map((person, index) => {
+    if (!isObject(person) || !('handle' in person)) return person;
+    const { handle, ...rest } = person;
+    // Version 1 files written without a handle still carry the key
+    if (handle === undefined) return rest;
+    if (typeof handle !== 'string') {
+      issues.push({ path: joinPath(joinPath('people', index), 'handle'), message: 'must be a string' });
+      return rest;
+    }
+    return { ...rest, handles: handlesFromLegacy(handle) };
+  });
+  return { ...data, formatVersion: 3, people };
+}
+
+// Upgrades a file written in `version` to the next version
+const migrations: Record<number, (data: Json, issues: SchemaIssue[]) => Json> = {
+  1: migrateV1,
+  2: migrateV2
+};
+
+export function parseDraftFile(json: unknown): ParsedDraftFile {
+  if (!isObject(json)) {
+    throw new SchemaError([{ path: '(root)', message: 'must be a JSON object' }]);
+  }
+
+  const formatVersion = json.formatVersion ?? 1;
+  if (typeof formatVersion !== 'number' || !Number.isInteger(formatVersion) || formatVersion < 1) {
+    throw new SchemaError([{ path: 'formatVersion', message: 'must be a positive whole number' }]);
+  }
+  if (formatVersion > DRAFT_FORMAT_VERSION) {
+    throw new SchemaError([{
+      path: 'formatVersion',
+      message: `is ${formatVersion}, but this version of the app reads up to ${DRAFT_FORMAT_VERSION}`
+    }]);
+  }
+
+  const issues: SchemaIssue[] = [];
+  let data = json;
+  for (let version = formatVersion; version < DRAFT_FORMAT_VERSION; version++) {
+    data = migrations[version](data, issues);
+  }
+
+  const draft = readDraft(data, issues);
+  if (data.exportedAt !== undefined && typeof data.exportedAt !== 'string') {
+    issues.push({ path: 'exportedAt', message: 'must be a string' });
+  }
+  if (data.calculationResult !== undefined && data.calculationResult !== null && !isObject(data.calculationResult)) {
+    issues.push({ path: 'calculationResult', message: 'must be an object' });
+  }
+  if (!draft || issues.length > 0) {
+    throw new SchemaError(issues);
+  }
+
+  return {
+    draft,
+    formatVersion,
+    exportedAt: data.exportedAt as string | undefined,
+    // Kept as exported for auditing; the app recomputes results from the draft
+    calculationResult: data.calculationResult as CalculationResult | null | undefined
+  };
+}
+
+// The current file format for a draft, stamped with the export time
+export function serializeDraft(draft: ReceiptDraft, calculationResult?: CalculationResult | null): DraftFile {
+  return {
+    formatVersion: DRAFT_FORMAT_VERSION,
+    ...draft,
+    ...(calculationResult !== undefined ? { calculationResult } : {}),
+    exportedAt: new Date().toISOString()
+  };
+}
+
+function readGroup(value: unknown, path: string, issues: SchemaIssue[]): PeopleGroup | undefined {
+  const f = fields(value, path, issues, GROUP_KEYS);
+  if (!f) return undefined;
+  return {
+    id: f.string('id', true) ?? '',
+    name: f.string('name', true) ?? '',
+    memberIds: f.strings('memberIds') ?? []
+  };
+}
+
+export function parseDirectoryFile(json: unknown): PeopleDirectory {
+  const issues: SchemaIssue[] = [];
+  const f = fields(json, '', issues, DIRECTORY_KEYS);
+  if (!f) throw new SchemaError(issues, 'people directory');
+
+  const formatVersion = f.number('formatVersion', { required: true });
+  if (formatVersion !== undefined && formatVersion > DIRECTORY_FORMAT_VERSION) {
+    throw new SchemaError([{
+      path: 'formatVersion',
+      message: `is ${formatVersion}, but this version of the app reads up to ${DIRECTORY_FORMAT_VERSION}`
+    }], 'people directory');
+  }
+  f.string('exportedAt');
+  const people = f.list('people', (entry, path) => readPerson(entry, path, issues), true) ?? [];
+  const groups = f.list('groups', (entry, path) => readGroup(entry, path, issues)) ?? [];
+
+  // Groups may only list people the file itself contains
+  const ids = new Set<string>();
+  people.forEach((person, index) => {
+    if (ids.has(person.id)) issues.push({ path: `people[${index}].id`, message: `repeats "${person.id}"` });
+    ids.add(person.id);
+  });
+  groups.forEach((group, index) => {
+    group.memberIds.forEach((memberId, memberIndex) => {
+      if (!ids.has(memberId)) {
+        issues.push({ path: `groups[${index}].memberIds[${memberIndex}]`, message: `is not a person in this file ("${memberId}")` });
+      }
+    });
+  });
+
+  if (issues.length > 0) throw new SchemaError(issues, 'people directory');
+  return { people, groups };
+}
+
+export function serializeDirectory(directory: PeopleDirectory): DirectoryFile {
+  return {
+    formatVersion: DIRECTORY_FORMAT_VERSION,
+    ...directory,
+    exportedAt: new Date().toISOString()
+  };
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import Decimal from 'decimal.js';
+import type { Balance } from './types';
+import { compute } from './calculator';
+import { computeBalances, minimizeTransfers } from './settlement';
+
+const netTotal = (balances: Balance[]) =>
+  balances.reduce((sum, balance) => sum.plus(balance.net), new Decimal(0)).toNumber();
+
+describe('computeBalances', () => {
+  it('nets to zero when the payments cover what is owed', () => {
+    const balances = computeBalances(
+      [{ personId: 'a', amount: 33.34 }, { personId: 'b', amount: 33.33 }, { personId: 'c', amount: 33.33 }],
+      [{ personId: 'a', amount: 60 }, { personId: 'b', amount: 40 }]
+    );
+    expect(balances).toEqual([
+      { personId: 'a', paid: 60, owes: 33.34, net: 26.66 },
+      { personId: 'b', paid: 40, owes: 33.33, net: 6.67 },
+      { personId: 'c', paid: 0, owes: 33.33, net: -33.33 }
+    ]);
+    expect(netTotal(balances)).toBe(0);
+  });
+
+  it('gives a row to someone who only paid', () => {
+    const balances = computeBalances([{ personId: 'a', amount: 10 }], [{ personId: 'host', amount: 10 }]);
+    expect(balances.find(b => b.personId === 'host')).toEqual({ personId: 'host', paid: 10, owes: 0, net: 10 });
+    expect(netTotal(balances)).toBe(0);
+  });
+});
+
+describe('minimizeTransfers', () => {
+  it('settles everyone with at most one transfer fewer than people with a balance', () => {
+    const balances = computeBalances(
+      [{ personId: 'a', amount: 40 }, { personId: 'b', amount: 20 }, { personId: 'c', amount: 50 }, { personId: 'd', amount: 30 }],
+      [{ personId: 'a', amount: 100 }, { personId: 'b', amount: 40 }]
+    );
+    const transfers = minimizeTransfers(balances, 'USD');
+    expect(transfers).toEqual([
+      { from: 'c', to: 'a', amount: 50 },
+      { from: 'd', to: 'b', amount: 20 },
+      { from: 'd', to: 'a', amount: 10 }
+    ]);
+    expect(transfers.length).toBeLessThan(balances.length);
+  });
+
+  it('treats amounts under half a minor unit as settled', () => {
+    const balances: Balance[] = [
+      { personId: 'a', paid: 10.004, owes: 10, net: 0.004 },
+      { personId: 'b', paid: 0, owes: 0.004, net: -0.004 }
+    ];
+    expect(minimizeTransfers(balances, 'USD')).toEqual([]);
+    expect(minimizeTransfers(balances, 'KWD')).toEqual([{ from: 'b', to: 'a', amount: 0.004 }]);
+  });
+
+  it('only moves what the payers are owed when payments fall short', () => {
+    const balances = computeBalances(
+      [{ personId: 'a', amount: 50 }, { personId: 'b', amount: 50 }],
+      [{ personId: 'a', amount: 90 }]
+    );
+    expect(netTotal(balances)).toBe(-10);
+    expect(minimizeTransfers(balances, 'USD')).toEqual([{ from: 'b', to: 'a', amount: 40 }]);
+  });
+});
+
+describe('compute settle-up', () => {
+  it('flags payments that do not match the receipt total', () => {
+    const result = compute({
+      currency: 'USD',
+      taxTotal: 0,
+      items: [{ id: 'pizza', name: 'Pizza', price: 30, payers: ['a', 'b', 'c'] }],
+      people: [{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }, { id: 'c', name: 'C' }],
+      payments: [{ personId: 'a', amount: 25 }]
+    });
+    expect(result.diagnostics.map(d => d.code)).toContain('payment-mismatch');
+    expect(result.settleUp?.paidTotal).toBe(25);
+    expect(result.settleUp?.transfers).toEqual([{ from: 'b', to: 'a', amount: 10 }, { from: 'c', to: 'a', amount: 5 }]);
+  });
+});
@@ -0,0 +1,68 @@
+import Decimal from 'decimal.js';
+import type { Balance, Transfer } from './types';
+import { minorUnit } from './currency';
+
+// Nets what each person paid against what they owe. People who only paid, or
+// only owe, still get a row.
+export function computeBalances(
+  owed: Array<{ personId: string; amount: number }>,
+  paid: Array<{ personId: string; amount: number }>
+): Balance[] {
+  const balances = new Map<string, { paid: Decimal; owes: Decimal }>();
+  const entry = (personId: string) => {
+    if (!balances.has(personId)) {
+      balances.set(personId, { paid: new Decimal(0), owes: new Decimal(0) });
+    }
+    return balances.get(personId)!;
+  };
+
+  for (const { personId, amount } of owed) {
+    entry(personId).owes = entry(personId).owes.plus(amount);
+  }
+  for (const { personId, amount } of paid) {
+    entry(personId).paid = entry(personId).paid.plus(amount);
+  }
+
+  return Array.from(balances, ([personId, { paid, owes }]) => ({
+    personId,
+    paid: paid.toNumber(),
+    owes: owes.toNumber(),
+    net: paid.minus(owes).toNumber()
+  }));
+}
+
+// Greedy settle-up: the biggest debtor pays the biggest creditor until one of
+// them is square, which needs at most one fewer transfer than there are people
+// with a balance. Amounts under half a minor unit are treated as settled.
+export function minimizeTransfers(balances: Balance[], currency: string): Transfer[] {
+  const threshold = new Decimal(minorUnit(currency)).dividedBy(2);
+  const byPersonId = (a: { personId: string }, b: { personId: string }) => a.personId.localeCompare(b.personId);
+
+  const creditors = balances
+    .filter(b => new Decimal(b.net).greaterThanOrEqualTo(threshold))
+    .map(b => ({ personId: b.personId, amount: new Decimal(b.net) }))
+    .sort(byPersonId);
+  const debtors = balances
+    .filter(b => new Decimal(b.net).negated().greaterThanOrEqualTo(threshold))
+    .map(b => ({ personId: b.personId, amount: new Decimal(b.net).negated() }))
+    .sort(byPersonId);
+
+  const transfers: Transfer[] = [];
+  const largest = (list: typeof creditors) => list.reduce<(typeof creditors)[number] | undefined>(
+    (best, candidate) => !best || candidate.amount.greaterThan(best.amount) ? candidate : best,
+    undefined
+  );
+
+  for (;;) {
+    const creditor = largest(creditors.filter(c => c.amount.greaterThanOrEqualTo(threshold)));
+    const debtor = largest(debtors.filter(d => d.amount.greaterThanOrEqualTo(threshold)));
+    if (!creditor || !debtor) break;
+
+    const amount = Decimal.min(creditor.amount, debtor.amount);
+    transfers.push({ from: debtor.personId, to: creditor.personId, amount: amount.toNumber() });
+    creditor.amount = creditor.amount.minus(amount);
+    debtor.amount = debtor.amount.minus(amount);
+  }
+
+  return transfers;
+}
@@ -0,0 +1,40 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { historyShortcut } from './shortcuts';
+
+function keydown(target: HTMLElement, init: KeyboardEventInit): KeyboardEvent {
+  let received: KeyboardEvent | undefined;
+  target.addEventListener('keydown', event => { received = event; }, { once: true });
+  target.dispatchEvent(new KeyboardEvent('keydown', { bubbles: true, ...init }));
+  return received!;
+}
+
+describe('historyShortcut', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('undoes and redoes outside of fields', () => {
+    expect(historyShortcut(keydown(document.body, { key: 'z', ctrlKey: true }))).toBe('UNDO');
+    expect(historyShortcut(keydown(document.body, { key: 'z', metaKey: true }))).toBe('UNDO');
+    expect(historyShortcut(keydown(document.body, { key: 'Z', ctrlKey: true, shiftKey: true }))).toBe('REDO');
+    expect(historyShortcut(keydown(document.body, { key: 'y', ctrlKey: true }))).toBe('REDO');
+    expect(historyShortcut(keydown(document.body, { key: 'z' }))).toBeUndefined();
+  });
+
+  it('leaves the shortcut to the browser while a field has focus', () => {
+    const editable = document.createElement('div');
+    editable.setAttribute('contenteditable', 'true');
+    const fields = [
+      document.createElement('input'),
+      document.createElement('textarea'),
+      document.createElement('select'),
+      editable
+    ];
+    for (const field of fields) {
+      document.body.appendChild(field);
+      expect(historyShortcut(keydown(field, { key: 'z', ctrlKey: true }))).toBeUndefined();
+      expect(historyShortcut(keydown(field, { key: 'y', ctrlKey: true }))).toBeUndefined();
+    }
+  });
+});
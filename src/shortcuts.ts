@@ -0,0 +1,18 @@
+// Keyboard shortcuts for the session history. Fields keep their own text
+// undo, so the shortcuts are left to the browser while one has focus.
+
+export function isTextEntryTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return true;
+  return target.isContentEditable || target.closest('[contenteditable=""], [contenteditable="true"]') !== null;
+}
+
+// Ctrl/Cmd+Z to undo; Ctrl/Cmd+Shift+Z or Ctrl+Y to redo
+export function historyShortcut(event: KeyboardEvent): 'UNDO' | 'REDO' | undefined {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) return undefined;
+  if (isTextEntryTarget(event.target)) return undefined;
+  const key = event.key.toLowerCase();
+  if (key === 'z' && !event.shiftKey) return 'UNDO';
+  if ((key === 'z' && event.shiftKey) || (key === 'y' && event.ctrlKey)) return 'REDO';
+  return undefined;
+}
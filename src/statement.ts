@@ -0,0 +1,89 @@
+import type { AllocationLine, CalculationResult, PersonBreakdown, ReceiptDraft } from './types';
+import { formatMoney, formatMoneyDelta } from './currency';
+
+// "33.3%"; whole shares print without decimals
+export function formatShare(fraction: number): string {
+  const percent = Math.round(fraction * 1000) / 10;
+  return `${percent}%`;
+}
+
+export function allocationLineLabel(line: AllocationLine): string {
+  switch (line.kind) {
+    case 'item':
+      return line.fraction === 1 ? line.name : `${line.name} (${formatShare(line.fraction)})`;
+    case 'discount':
+    case 'charge':
+      return `${line.name} (${formatShare(line.fraction)})`;
+    case 'rounding':
+      return 'Rounding';
+  }
+}
+
+// Plain-text statement for one person, e.g. to paste into a message
+export function statementText(
+  breakdown: PersonBreakdown,
+  personName: string,
+  draft: ReceiptDraft,
+  result: CalculationResult
+): string {
+  const money = (n: number) => formatMoney(n, draft.currency);
+  const taxWord = draft.pricesIncludeTax ? 'incl. tax' : 'tax';
+  const lines = [
+    `${personName} - ${draft.title || draft.storeName || 'Receipt'}${draft.purchasedAt ? ` (${draft.purchasedAt})` : ''}`,
+    ''
+  ];
+
+  for (const line of breakdown.lines) {
+    const label = allocationLineLabel(line);
+    switch (line.kind) {
+      case 'item':
+        lines.push(`${label}: ${money(line.amount)}`);
+        if (line.discount > 0) lines.push(`  discount: −${money(line.discount)}`);
+        if (line.tax > 0) lines.push(`  ${taxWord}: ${money(line.tax)}`);
+        break;
+      case 'discount':
+        lines.push(`${label}: −${money(line.amount)}`);
+        break;
+      case 'charge':
+        lines.push(`${label}: ${money(line.amount)}`);
+        break;
+      case 'rounding':
+        lines.push(`${label}: ${formatMoneyDelta(line.amount, draft.currency)}`);
+        break;
+    }
+  }
+
+  lines.push('', `Total: ${money(breakdown.total)}`);
+  if (result.settlement && breakdown.settlementTotal !== undefined) {
+    lines.push(
+      `In ${result.settlement.currency}: ${formatMoney(breakdown.settlementTotal, result.settlement.currency)} ` +
+      `at 1 ${draft.currency} = ${result.settlement.rate} ${result.settlement.currency}`
+    );
+  }
+  return lines.join('\n');
+}
+
+// Standalone statement file for one person
+export function statementFile(
+  breakdown: PersonBreakdown,
+  personName: string,
+  draft: ReceiptDraft,
+  result: CalculationResult
+) {
+  return {
+    person: { id: breakdown.personId, name: personName },
+    receipt: {
+      title: draft.title,
+      storeName: draft.storeName,
+      purchasedAt: draft.purchasedAt,
+      currency: draft.currency,
+      pricesIncludeTax: draft.pricesIncludeTax
+    },
+    lines: breakdown.lines,
+    total: breakdown.total,
+    settlement: result.settlement && breakdown.settlementTotal !== undefined
+      ? { currency: result.settlement.currency, rate: result.settlement.rate, total: breakdown.settlementTotal }
+      : undefined,
+    exportedAt: new Date().toISOString()
+  };
+}
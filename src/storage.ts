@@ -0,0 +1,305 @@
+import type { ImportPreset, PayerAlias, PayerRule, PeopleDirectory, PeopleGroup, Person, ReceiptDraft } from './types';
+import { parseJsonToDraft } from './parsing';
+import { handlesFromLegacy } from './paymentLinks';
+import { withPersonDetails } from './directory';
+
+// Receipts saved in the browser (IndexedDB). Each record carries the format
+// version it was written with so older saves can be upgraded on load.
+export const STORAGE_VERSION = 2;
+
+export type SavedReceipt = {
+  id: string;
+  version: number;
+  draft: ReceiptDraft;
+  createdAt: string;
+  savedAt: string;
+};
+
+const DB_NAME = 'receipt-reviewer';
+const DB_VERSION = 5;
+const RECEIPTS_STORE = 'receipts';
+const PRESETS_STORE = 'importPresets'; // added in database version 2
+const PEOPLE_STORE = 'people'; // added in database version 3
+const GROUPS_STORE = 'peopleGroups'; // added in database version 3
+const ALIASES_STORE = 'payerAliases'; // added in database version 4
+const RULES_STORE = 'payerRules'; // added in database version 5
+
+// Upgrades a record written with `version` to the next version
+const migrations: Record<number, (record: SavedReceipt) => SavedReceipt> = {
+  // Unversioned records held the draft as plain exported JSON
+  0: record => ({ ...record, draft: parseJsonToDraft(record.draft), version: 1 }),
+  // People had a single free-form `handle` before handles were kept per service
+  1: record => ({
+    ...record,
+    draft: {
+      ...record.draft,
+      people: record.draft.people.map(person => {
+        const { handle, ...rest } = person as typeof person & { handle?: unknown };
+        return typeof handle === 'string' ? { ...rest, handles: handlesFromLegacy(handle) } : rest;
+      })
+    },
+    version: 2
+  })
+};
+
+export function migrateSavedReceipt(raw: unknown): SavedReceipt {
+  let record = raw as SavedReceipt;
+  if (!record || typeof record !== 'object' || typeof record.id !== 'string' || !record.draft) {
+    throw new Error('Saved receipt is missing its draft');
+  }
+  record = { ...record, version: record.version ?? 0 };
+
+  if (record.version > STORAGE_VERSION) {
+    throw new Error(`Receipt was saved by a newer version of the app (format ${record.version})`);
+  }
+  while (record.version < STORAGE_VERSION) {
+    const migrate = migrations[record.version];
+    if (!migrate) {
+      throw new Error(`No upgrade from saved receipt format ${record.version}`);
+    }
+    record = migrate(record);
+  }
+  return record;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('Browser storage is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(RECEIPTS_STORE)) {
+        db.createObjectStore(RECEIPTS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(PRESETS_STORE)) {
+        db.createObjectStore(PRESETS_STORE, { keyPath: 'id' });
+      }
+      for (const name of [PEOPLE_STORE, GROUPS_STORE]) {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'id' });
+        }
+      }
+      if (!db.objectStoreNames.contains(ALIASES_STORE)) {
+        db.createObjectStore(ALIASES_STORE, { keyPath: 'alias' });
+      }
+      if (!db.objectStoreNames.contains(RULES_STORE)) {
+        db.createObjectStore(RULES_STORE, { keyPath: 'rule.id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+async function objectStore(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(name, mode).objectStore(name);
+}
+
+function receiptsStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  return objectStore(RECEIPTS_STORE, mode);
+}
+
+// A saved record that couldn't be upgraded, so it can be reported instead of vanishing
+export type SkippedReceipt = {
+  id?: string;
+  reason: string;
+};
+
+// Newest first. Records that can't be upgraded are listed in `skipped` rather
+// than hiding every other save.
+export async function listSavedReceipts(): Promise<{ receipts: SavedReceipt[]; skipped: SkippedReceipt[] }> {
+  const store = await receiptsStore('readonly');
+  const records = await promisify(store.getAll());
+
+  const receipts: SavedReceipt[] = [];
+  const skipped: SkippedReceipt[] = [];
+  for (const raw of records) {
+    try {
+      receipts.push(migrateSavedReceipt(raw));
+    } catch (error) {
+      const id = (raw as { id?: unknown } | null)?.id;
+      skipped.push({
+        id: typeof id === 'string' ? id : undefined,
+        reason: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+  return { receipts: receipts.sort((a, b) => b.savedAt.localeCompare(a.savedAt)), skipped };
+}
+
+export async function getSavedReceipt(id: string): Promise<SavedReceipt | undefined> {
+  const store = await receiptsStore('readonly');
+  const raw = await promisify(store.get(id));
+  return raw ? migrateSavedReceipt(raw) : undefined;
+}
+
+// Creates or overwrites the record with `id`, keeping its original creation time
+export async function saveReceipt(id: string, draft: ReceiptDraft): Promise<SavedReceipt> {
+  const existing = await getSavedReceipt(id).catch(() => undefined);
+  const now = new Date().toISOString();
+  const record: SavedReceipt = {
+    id,
+    version: STORAGE_VERSION,
+    draft,
+    createdAt: existing?.createdAt ?? now,
+    savedAt: now
+  };
+
+  const store = await receiptsStore('readwrite');
+  await promisify(store.put(record));
+  return record;
+}
+
+export async function deleteSavedReceipt(id: string): Promise<void> {
+  const store = await receiptsStore('readwrite');
+  await promisify(store.delete(id));
+}
+
+export function savedReceiptName(record: SavedReceipt): string {
+  return record.draft.title || record.draft.storeName || 'Untitled receipt';
+}
+
+// Case-insensitive match on title, store and purchase date
+export function matchesSearch(record: SavedReceipt, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  const { title, storeName, purchasedAt } = record.draft;
+  return [title, storeName, purchasedAt].some(field => field?.toLowerCase().includes(needle));
+}
+
+export async function listImportPresets(): Promise<ImportPreset[]> {
+  const store = await objectStore(PRESETS_STORE, 'readonly');
+  const presets: ImportPreset[] = await promisify(store.getAll());
+  return presets.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveImportPreset(preset: ImportPreset): Promise<void> {
+  const store = await objectStore(PRESETS_STORE, 'readwrite');
+  await promisify(store.put(preset));
+}
+
+export async function deleteImportPreset(id: string): Promise<void> {
+  const store = await objectStore(PRESETS_STORE, 'readwrite');
+  await promisify(store.delete(id));
+}
+
+export async function loadDirectory(): Promise<PeopleDirectory> {
+  const [people, groups]: [Person[], PeopleGroup[]] = await Promise.all([
+    objectStore(PEOPLE_STORE, 'readonly').then(store => promisify(store.getAll())),
+    objectStore(GROUPS_STORE, 'readonly').then(store => promisify(store.getAll()))
+  ]);
+  return {
+    people: people.sort((a, b) => a.name.localeCompare(b.name)),
+    groups: groups.sort((a, b) => a.name.localeCompare(b.name))
+  };
+}
+
+export async function saveDirectoryPerson(person: Person): Promise<void> {
+  const store = await objectStore(PEOPLE_STORE, 'readwrite');
+  await promisify(store.put(person));
+}
+
+// Also drops the person from any group they were in
+export async function deleteDirectoryPerson(personId: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([PEOPLE_STORE, GROUPS_STORE], 'readwrite');
+  const groupsStore = transaction.objectStore(GROUPS_STORE);
+  transaction.objectStore(PEOPLE_STORE).delete(personId);
+  const groups: PeopleGroup[] = await promisify(groupsStore.getAll());
+  for (const group of groups.filter(g => g.memberIds.includes(personId))) {
+    groupsStore.put({ ...group, memberIds: group.memberIds.filter(id => id !== personId) });
+  }
+  await transactionDone(transaction);
+}
+
+export async function savePeopleGroup(group: PeopleGroup): Promise<void> {
+  const store = await objectStore(GROUPS_STORE, 'readwrite');
+  await promisify(store.put(group));
+}
+
+export async function deletePeopleGroup(id: string): Promise<void> {
+  const store = await objectStore(GROUPS_STORE, 'readwrite');
+  await promisify(store.delete(id));
+}
+
+// Writes every person and group in `directory`, e.g. after an import
+export async function saveDirectory(directory: PeopleDirectory): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([PEOPLE_STORE, GROUPS_STORE], 'readwrite');
+  directory.people.forEach(person => transaction.objectStore(PEOPLE_STORE).put(person));
+  directory.groups.forEach(group => transaction.objectStore(GROUPS_STORE).put(group));
+  await transactionDone(transaction);
+}
+
+// Carries a rename or handle change into every saved receipt the person is
+// on, leaving their saved times alone. Returns how many were updated.
+export async function updatePersonInSavedReceipts(person: Person): Promise<number> {
+  const updated = (await listSavedReceipts()).receipts
+    .map(record => ({ record, draft: withPersonDetails(record.draft, person) }))
+    .filter(({ record, draft }) => draft !== record.draft);
+  if (updated.length === 0) return 0;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(RECEIPTS_STORE, 'readwrite');
+  for (const { record, draft } of updated) {
+    transaction.objectStore(RECEIPTS_STORE).put({ ...record, draft });
+  }
+  await transactionDone(transaction);
+  return updated.length;
+}
+
+export async function listPayerAliases(): Promise<PayerAlias[]> {
+  const store = await objectStore(ALIASES_STORE, 'readonly');
+  return promisify(store.getAll());
+}
+
+export async function savePayerAliases(aliases: PayerAlias[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(ALIASES_STORE, 'readwrite');
+  aliases.forEach(alias => transaction.objectStore(ALIASES_STORE).put(alias));
+  await transactionDone(transaction);
+}
+
+// Rules are stored with their place in the list, since the first match wins
+type StoredPayerRule = { position: number; rule: PayerRule };
+
+export async function listPayerRules(): Promise<PayerRule[]> {
+  const store = await objectStore(RULES_STORE, 'readonly');
+  const stored: StoredPayerRule[] = await promisify(store.getAll());
+  return stored.sort((a, b) => a.position - b.position).map(({ rule }) => rule);
+}
+
+// Replaces the saved rules with `rules`, in that order
+export async function savePayerRules(rules: PayerRule[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(RULES_STORE, 'readwrite');
+  const store = transaction.objectStore(RULES_STORE);
+  store.clear();
+  rules.forEach((rule, position) => store.put({ position, rule }));
+  await transactionDone(transaction);
+}
@@ -0,0 +1,297 @@
+import Decimal from 'decimal.js';
+import type { Charge, Discount, Item, Person, ReceiptDraft } from './types';
+import { currencyExponent, roundMoney } from './currency';
+
+// Heuristic reader for receipts pasted from emails or printouts: one item per
+// line with its price at the end (`2 x Oat Milk    7.98`), then SUBTOTAL,
+// TAX and TOTAL lines. Anything it can't place is marked 'unknown' for review.
+
+export type TextLineKind =
+  | 'item'
+  | 'discount'
+  | 'charge'
+  | 'subtotal'
+  | 'tax'
+  | 'total'
+  | 'store'
+  | 'date'
+  | 'ignored'
+  | 'unknown';
+
+export type TextReceiptLine = {
+  line: number; // 1-based line in the pasted text
+  text: string;
+  kind: TextLineKind;
+  name?: string;
+  quantity?: number;
+  unitPrice?: number;
+  amount?: number; // line total; discounts are positive amounts taken off
+};
+
+export type TextReceipt = {
+  storeName?: string;
+  purchasedAt?: string; // "YYYY-MM-DD"
+  lines: TextReceiptLine[];
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Checked in order, so "Subtotal" and "Total tax" are not read as the total
+const KEYWORDS: Array<[Exclude<TextLineKind, 'item' | 'store' | 'date' | 'unknown'>, RegExp]> = [
+  ['subtotal', /^sub\s*-?\s*total\b/i],
+  ['tax', /\b(tax|vat|gst|hst|pst|mwst|iva)\b/i],
+  ['total', /^(grand\s+)?total\b|\b(amount|balance|total)\s+due\b|^(summe|gesamt|totale?)\b/i],
+  ['charge', /\b(tip|gratuity|service\s+(charge|fee)|delivery\s+fee|bag\s+fee)\b/i],
+  ['discount', /\b(discount|coupon|savings|promo|markdown)\b/i],
+  ['ignored', /\b(cash|change|visa|mastercard|amex|debit|credit|card|tender(ed)?|payment|auth(orization)?|approval)\b/i]
+];
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function isoDate(year: number, month: number, day: number): string | undefined {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return undefined;
+  const fullYear = year < 100 ? 2000 + year : year;
+  return `${fullYear}-${pad(month)}-${pad(day)}`;
+}
+
+// Finds a date in the line; returns it as "YYYY-MM-DD" with the matched text
+function findDate(text: string): { date: string; match: string } | undefined {
+  let m = text.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+  if (m) {
+    const date = isoDate(Number(m[1]), Number(m[2]), Number(m[3]));
+    if (date) return { date, match: m[0] };
+  }
+
+  // Slashes are read month-first unless that can't be right; dots are day-first
+  m = text.match(/\b(\d{1,2})([/.-])(\d{1,2})\2(\d{4}|\d{2})\b/);
+  if (m) {
+    const [a, b, year] = [Number(m[1]), Number(m[3]), Number(m[4])];
+    const dayFirst = m[2] === '.' || a > 12;
+    const date = dayFirst ? isoDate(year, b, a) : isoDate(year, a, b);
+    if (date) return { date, match: m[0] };
+  }
+
+  m = text.match(/\b([A-Za-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})\b/);
+  if (m && MONTHS.includes(m[1].toLowerCase())) {
+    const date = isoDate(Number(m[3]), MONTHS.indexOf(m[1].toLowerCase()) + 1, Number(m[2]));
+    if (date) return { date, match: m[0] };
+  }
+
+  m = text.match(/\b(\d{1,2})\s+([A-Za-z]{3})[a-z]*\.?,?\s+(\d{4})\b/);
+  if (m && MONTHS.includes(m[2].toLowerCase())) {
+    const date = isoDate(Number(m[3]), MONTHS.indexOf(m[2].toLowerCase()) + 1, Number(m[1]));
+    if (date) return { date, match: m[0] };
+  }
+
+  return undefined;
+}
+
+// "1,234.56", "1.234,56" or "7,98"; amounts must have the currency's decimals
+// so that numbers like "Table 12" aren't read as prices
+function parseAmount(token: string, exponent: number): number | undefined {
+  const digits = token.replace(/'/g, '');
+  if (exponent === 0) {
+    return /^\d{1,3}([.,]\d{3})*$|^\d+$/.test(digits) ? Number(digits.replace(/[.,]/g, '')) : undefined;
+  }
+  const decimal = new RegExp(`^(\\d{1,3}(?:[.,]\\d{3})*|\\d+)[.,](\\d{${exponent}})$`).exec(digits);
+  if (!decimal) return undefined;
+  return Number(`${decimal[1].replace(/[.,]/g, '')}.${decimal[2]}`);
+}
+
+// Splits a price off the end of the line, allowing a currency sign, a
+// leading or trailing minus, and a tax flag such as "T" or "*" after it
+function splitAmount(text: string, currency: string, exponent: number): { rest: string; amount: number } | undefined {
+  const pattern = new RegExp(`^(.*?)(?:^|\\s)([-−]?)\\s*(?:[$€£¥]|${currency.toUpperCase()}\\s)?\\s*(\\d[\\d.,']*)\\s*(-)?(?:\\s+[A-Z*]{1,2})?\\s*$`);
+  const m = text.match(pattern);
+  if (!m) return undefined;
+  const amount = parseAmount(m[3], exponent);
+  if (amount === undefined) return undefined;
+  const negative = m[2] !== '' || m[4] !== undefined;
+  return { rest: m[1].trim(), amount: negative ? -amount : amount };
+}
+
+// "2 x Oat Milk", "Oat Milk 2 @ 3.99", "Oat Milk x2" or "Oat Milk 2x"
+function splitQuantity(name: string, exponent: number): { name: string; quantity?: number; unitPrice?: number } {
+  let m = name.match(/^(\d+(?:\.\d+)?)\s*[x×]\s+(.+)$/i);
+  if (m) return { name: m[2].trim(), quantity: Number(m[1]) };
+
+  m = name.match(/^(.+?)\s+(\d+(?:\.\d+)?)\s*(?:[x×@]|at)\s*[$€£]?(\d[\d.,]*)\s*(?:ea|each|\/ea)?$/i);
+  if (m) {
+    return { name: m[1].trim(), quantity: Number(m[2]), unitPrice: parseAmount(m[3], exponent) };
+  }
+
+  m = name.match(/^(.+?)\s+(?:[x×]\s*(\d+)|(\d+)\s*[x×])$/i);
+  if (m) return { name: m[1].trim(), quantity: Number(m[2] ?? m[3]) };
+
+  return { name };
+}
+
+export function parseReceiptText(text: string, currency: string): TextReceipt {
+  const exponent = currencyExponent(currency);
+  const lines: TextReceiptLine[] = [];
+  let storeName: string | undefined;
+  let purchasedAt: string | undefined;
+  let seenPrice = false;
+  let seenTotal = false;
+
+  text.split(/\r\n|\r|\n/).forEach((raw, index) => {
+    const textLine = raw.trim();
+    if (!textLine) return;
+    const line = index + 1;
+
+    // Dates first, so "05.01.24" isn't taken for a price
+    const dated = findDate(textLine);
+    const withoutDate = dated ? textLine.replace(dated.match, ' ').trim() : textLine;
+    const priced = splitAmount(withoutDate, currency, exponent);
+
+    if (!priced) {
+      if (dated) {
+        purchasedAt ??= dated.date;
+        lines.push({ line, text: textLine, kind: 'date' });
+      } else if (!seenPrice && !storeName && /[A-Za-z]{2}/.test(textLine)) {
+        storeName = textLine;
+        lines.push({ line, text: textLine, kind: 'store' });
+      } else if (!seenPrice || KEYWORDS.some(([kind, pattern]) => kind === 'ignored' && pattern.test(textLine))) {
+        // Header lines such as the address or phone number
+        lines.push({ line, text: textLine, kind: 'ignored' });
+      } else {
+        lines.push({ line, text: textLine, kind: 'unknown' });
+      }
+      return;
+    }
+
+    seenPrice = true;
+    const keyword = KEYWORDS.find(([, pattern]) => pattern.test(priced.rest));
+    if (keyword) {
+      const [kind] = keyword;
+      if (kind === 'total') seenTotal = true;
+      lines.push({
+        line,
+        text: textLine,
+        kind,
+        name: priced.rest,
+        amount: kind === 'discount' ? Math.abs(priced.amount) : priced.amount
+      });
+      return;
+    }
+
+    if (priced.amount < 0) {
+      lines.push({ line, text: textLine, kind: 'discount', name: priced.rest || 'Discount', amount: -priced.amount });
+      return;
+    }
+
+    // Priced lines after the total are usually payment details
+    if (seenTotal) {
+      lines.push({ line, text: textLine, kind: 'unknown', name: priced.rest, amount: priced.amount });
+      return;
+    }
+
+    const split = splitQuantity(priced.rest, exponent);
+    let name = split.name;
+    // A price on its own line belongs to the name on the line before it
+    const previous = lines[lines.length - 1];
+    if (!/[A-Za-z]/.test(name) && previous?.kind === 'unknown' && previous.amount === undefined) {
+      previous.kind = 'ignored';
+      name = previous.text;
+    }
+    if (!/[A-Za-z]/.test(name)) {
+      lines.push({ line, text: textLine, kind: 'unknown', amount: priced.amount });
+      return;
+    }
+
+    const quantity = split.quantity && split.quantity !== 1 ? split.quantity : undefined;
+    let unitPrice = split.unitPrice;
+    if (quantity && unitPrice === undefined) {
+      // Only keep a unit price that reproduces the line total
+      const each = roundMoney(priced.amount / quantity, currency);
+      if (new Decimal(each).times(quantity).equals(priced.amount)) unitPrice = each;
+    }
+    lines.push({ line, text: textLine, kind: 'item', name, quantity, unitPrice, amount: priced.amount });
+  });
+
+  return { storeName, purchasedAt, lines };
+}
+
+// Sums of the lines as currently classified, for checking against the printed totals
+export function textReceiptTotals(receipt: TextReceipt) {
+  const sum = (kind: TextLineKind) => receipt.lines
+    .filter(line => line.kind === kind)
+    .reduce((total, line) => total.plus(line.amount ?? 0), new Decimal(0))
+    .toNumber();
+  const printed = (kind: TextLineKind) => receipt.lines.find(line => line.kind === kind)?.amount;
+
+  const items = sum('item');
+  const discounts = sum('discount');
+  const charges = sum('charge');
+  const tax = sum('tax');
+  const total = printed('total');
+  const beforeTax = new Decimal(items).minus(discounts).plus(charges);
+  // VAT receipts print the tax that is already inside the prices
+  const taxIncluded = tax > 0 && total !== undefined && beforeTax.equals(total);
+
+  return {
+    items,
+    discounts,
+    charges,
+    tax,
+    taxIncluded,
+    computedTotal: (taxIncluded ? beforeTax : beforeTax.plus(tax)).toNumber(),
+    subtotal: printed('subtotal'),
+    total
+  };
+}
+
+export function textReceiptToDraft(receipt: TextReceipt, peopleBank: Person[], currency: string): ReceiptDraft {
+  const items: Item[] = [];
+  const discounts: Discount[] = [];
+  const charges: Charge[] = [];
+
+  for (const line of receipt.lines) {
+    const name = line.name || line.text;
+    const amount = line.amount ?? 0;
+    if (line.kind === 'item') {
+      items.push({
+        id: `item_${line.line}`,
+        name,
+        price: amount,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        payers: []
+      });
+    } else if (line.kind === 'discount') {
+      discounts.push({
+        id: `discount_${line.line}`,
+        name,
+        amount,
+        allocation: 'proportional',
+        taxBasis: 'post-discount'
+      });
+    } else if (line.kind === 'charge') {
+      const tip = /\b(tip|gratuity)\b/i.test(name);
+      charges.push({
+        id: `charge_${line.line}`,
+        name,
+        kind: tip ? 'tip' : /delivery/i.test(name) ? 'delivery' : 'service',
+        amount,
+        allocation: 'proportional'
+      });
+    }
+  }
+
+  const totals = textReceiptTotals(receipt);
+  return {
+    storeName: receipt.storeName,
+    purchasedAt: receipt.purchasedAt,
+    currency,
+    taxTotal: totals.tax,
+    pricesIncludeTax: totals.taxIncluded || undefined,
+    printedSubtotal: totals.subtotal,
+    printedTotal: totals.total,
+    charges: charges.length > 0 ? charges : undefined,
+    discounts: discounts.length > 0 ? discounts : undefined,
+    items,
+    people: peopleBank
+  };
+}
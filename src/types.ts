@@ -1,55 +1,327 @@
+export type PaymentMethod = 'venmo' | 'paypal' | 'cashapp' | 'bank';
+
 export type Person = {
   id: string;
   name: string;
-  handle?: string;
+  // Venmo username, PayPal.me name, Cash App $cashtag, and an IBAN or other bank reference
+  handles?: Partial<Record<PaymentMethod, string>>;
+};
+
+// A named set of people from the directory, e.g. "Roommates"
+export type PeopleGroup = {
+  id: string;
+  name: string;
+  memberIds: string[]; // person IDs
+};
+
+// People remembered across receipts and sessions, with stable IDs
+export type PeopleDirectory = {
+  people: Person[];
+  groups: PeopleGroup[];
+};
+
+// A payer name from an import remembered as meaning a known person
+export type PayerAlias = {
+  alias: string; // normalized: trimmed, lower case, single spaces
+  personId: string;
+  savedAt: string;
+};
+
+// Fills in payers for items that match, e.g. category "Alcohol" -> the drinkers.
+// Every condition that is set has to match.
+export type PayerRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  match: {
+    category?: string; // same category, ignoring case
+    nameContains?: string; // ignoring case
+    namePattern?: string; // regular expression, ignoring case
+    minPrice?: number; // line total, inclusive
+    maxPrice?: number;
+  };
+  everyone?: boolean; // everyone on the receipt; `payers` is ignored
+  payers: string[]; // person IDs; anyone not on the receipt is skipped
+  weights?: Record<string, number>;
 };
 
 export type Item = {
   id: string;
   name: string;
-  price: number;
+  price: number; // line total
+  quantity?: number; // defaults to 1
+  unitPrice?: number;
   category?: string;
-  payers: string[]; // simplified - just person IDs, equal split
+  taxRate?: number; // percent, overrides the category and default rates
+  taxExempt?: boolean;
+  payers: string[]; // person IDs
+  weights?: Record<string, number>; // per-payer weight, missing entries count as 1
+  unitClaims?: Record<string, number>; // units claimed per person ID; overrides weights when set
+  assignedBy?: { ruleId: string; ruleName: string }; // payer rule that filled in the payers, until they're edited by hand
   meta?: Record<string, unknown>;
 };
 
+export type ChargeKind = 'tip' | 'service' | 'delivery' | 'other';
+
+export type ChargeAllocation = 'proportional' | 'equal' | 'assigned';
+
+export type Charge = {
+  id: string;
+  name: string;
+  kind: ChargeKind;
+  amount: number; // fixed amount, ignored when percent is set
+  percent?: {
+    rate: number; // e.g. 18 for 18%
+    basis: 'pre-tax' | 'post-tax';
+  };
+  allocation: ChargeAllocation;
+  assignedTo?: string[]; // person IDs, used by 'assigned'
+};
+
+export type Discount = {
+  id: string;
+  name: string;
+  amount: number; // positive amount taken off, ignored when percent is set
+  percent?: number; // e.g. 10 for 10% off the item or order
+  itemId?: string; // item-level when set, otherwise order-level
+  allocation: 'proportional' | 'assigned'; // order-level only; item-level follows the item's shares
+  assignedTo?: string[]; // person IDs, used by 'assigned'
+  taxBasis: 'pre-discount' | 'post-discount'; // whether tax was figured before or after this discount
+};
+
+export type SettlementRate = {
+  currency: string; // currency the group settles up in
+  rate: number; // settlement-currency units per one unit of the receipt currency
+  rateDate?: string; // "YYYY-MM-DD" the rate was quoted for
+  source: 'manual' | 'imported';
+};
+
+// Money someone actually handed over at the register
+export type Payment = {
+  personId: string;
+  amount: number;
+};
+
+// `net` is positive when the person is owed money
+export type Balance = {
+  personId: string;
+  paid: number;
+  owes: number;
+  net: number;
+};
+
+export type Transfer = {
+  from: string;
+  to: string;
+  amount: number;
+};
+
+export type RoundingMethod = 'half-up' | 'half-even';
+
+// Who absorbs the minor units left over after rounding everyone's total:
+// the largest fractional remainders, one person (e.g. whoever paid at the
+// register), or people in turn following the order they were added.
+export type ResidualStrategy = 'largest-remainder' | 'payer' | 'rotate';
+
+export type RoundingPolicy = {
+  method: RoundingMethod;
+  residual: ResidualStrategy;
+  absorberId?: string; // 'payer' strategy; defaults to the first recorded payer, then the first person with a share
+};
+
 export type ReceiptDraft = {
   title?: string;
   storeName?: string;
   purchasedAt?: string;
   currency: string;
-  taxTotal: number;
+  taxTotal: number; // order-level tax, or the printed tax total when taxMode is 'rates'
+  taxMode?: 'order' | 'rates'; // defaults to 'order'
+  pricesIncludeTax?: boolean; // VAT-style prices; tax is backed out of them instead of added
+  defaultTaxRate?: number; // percent, used by 'rates'
+  categoryTaxRates?: Record<string, number>; // category -> percent, 0 marks it exempt
+  charges?: Charge[];
+  discounts?: Discount[];
+  settlement?: SettlementRate;
+  rounding?: RoundingPolicy;
+  payments?: Payment[];
+  printedSubtotal?: number; // item total as printed on the receipt, before discounts, tax and charges
+  printedTotal?: number; // grand total as printed on the receipt
+  totalsOverride?: boolean; // treat the split as final even though the printed totals don't match
   items: Item[];
   people: Person[];
 };
 
+// One line of a person's itemized statement, rounded to the receipt currency.
+// `fraction` is the part of the item, discount or charge the person takes, and
+// the rounding line makes the lines add up to the person's total.
+export type AllocationLine =
+  | {
+      kind: 'item';
+      itemId: string;
+      name: string;
+      fraction: number;
+      amount: number; // share of the line price
+      discount: number; // share of the item's own discounts
+      tax: number; // tax on this share; already inside `amount` when prices include tax
+    }
+  | { kind: 'discount'; discountId: string; name: string; fraction: number; amount: number }
+  | { kind: 'charge'; chargeId: string; name: string; fraction: number; amount: number }
+  | { kind: 'rounding'; amount: number };
+
+// Likely reasons the entered items don't add up to the printed totals
+export type ReconciliationSuggestion =
+  | { kind: 'missing-item'; amount: number } // an item of this price was probably skipped
+  | { kind: 'extra-item'; itemId: string; amount: number }
+  | { kind: 'duplicate-item'; itemId: string; duplicateOf: string; amount: number }
+  | { kind: 'transposed-digits'; itemId: string; price: number; suggestedPrice: number };
+
+export type TotalsComparison = {
+  computed: number;
+  printed: number;
+  difference: number; // computed - printed
+};
+
+export type TotalsReconciliation = {
+  subtotal?: TotalsComparison;
+  total?: TotalsComparison;
+  reconciled: boolean; // every printed total that was entered matches
+  overridden: boolean;
+  suggestions: ReconciliationSuggestion[];
+};
+
 export type PersonBreakdown = {
   personId: string;
-  subtotal: number;
+  subtotal: number; // pre-tax, so net of VAT when prices include tax
+  discount: number; // amount taken off the subtotal
   taxShare: number;
+  charges: Record<string, number>; // charge ID -> amount
   total: number;
+  settlementTotal?: number; // total converted to the settlement currency
+  lines: AllocationLine[];
   _fractional: {
     subtotal: number;
+    discount: number;
     taxShare: number;
+    charges: Record<string, number>;
     total: number;
   };
 };
 
 export type CalculationResult = {
   perPerson: PersonBreakdown[];
-  receiptSubtotal: number;
+  receiptSubtotal: number; // pre-tax, so net of VAT when prices include tax
+  receiptDiscount: number;
   receiptTax: number;
+  taxReconciliation?: TotalsComparison;
+  totalsReconciliation?: TotalsReconciliation; // when a printed subtotal or total was entered
+  receiptCharges: Array<{ chargeId: string; name: string; amount: number }>;
   receiptGrand: number;
-  rounding: {
-    method: "half-up";
+  settlement?: SettlementRate & {
+    receiptGrand: number; // grand total in the settlement currency
     residualApplied: Array<{ personId: string; delta: number }>;
   };
-  warnings: string[];
+  settleUp?: {
+    currency: string; // the settlement currency when one is set
+    paidTotal: number; // in the receipt currency
+    balances: Balance[];
+    transfers: Transfer[];
+  };
+  rounding: RoundingPolicy & {
+    residualApplied: Array<{ personId: string; delta: number }>;
+  };
+  diagnostics: Diagnostic[];
+};
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type DiagnosticCode =
+  | 'negative-tax'
+  | 'negative-tax-rate'
+  | 'tax-mismatch'
+  | 'subtotal-mismatch'
+  | 'total-mismatch'
+  | 'totals-overridden'
+  | 'reconciliation-hint'
+  | 'unknown-currency'
+  | 'unknown-settlement-currency'
+  | 'same-settlement-currency'
+  | 'invalid-exchange-rate'
+  | 'negative-payment'
+  | 'payment-mismatch'
+  | 'unknown-person'
+  | 'duplicate-person-id'
+  | 'negative-charge'
+  | 'unassigned-charge'
+  | 'invalid-discount'
+  | 'orphaned-discount'
+  | 'discount-exceeds-item'
+  | 'unassigned-discount'
+  | 'nothing-to-allocate'
+  | 'negative-price'
+  | 'negative-quantity'
+  | 'quantity-mismatch'
+  | 'unclaimed-units'
+  | 'overclaimed-units'
+  | 'no-payers'
+  | 'no-valid-payers'
+  | 'unknown-payer'
+  | 'ignored-weights'
+  | 'weight-without-payer';
+
+// A problem found in a draft, pointing at the row it concerns when there is one
+export type Diagnostic = {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  itemId?: string;
+  personId?: string;
+  chargeId?: string;
+  discountId?: string;
+};
+
+// One receipt in a trip ledger
+export type LedgerReceipt = {
+  id: string;
+  draft: ReceiptDraft;
+};
+
+export type LedgerSummary = {
+  currency: string;
+  receipts: Array<{
+    receiptId: string;
+    label: string;
+    grand: number; // in the currency the receipt settles in
+    included: boolean;
+    note?: string; // why a receipt was left out of the balances
+    running: Record<string, number>; // personId -> net balance after this receipt
+  }>;
+  balances: Balance[];
+  transfers: Transfer[];
 };
 
 export type CSVRow = {
   name: string;
   price: string;
+  quantity?: string;
+  unit_price?: string;
+  total?: string;
   category?: string;
-  payers: string;
+  payers: string; // "kevin,alice" or weighted "kevin:2,alice:1"
+};
+
+// Item fields a CSV column can be mapped to; `quantity_x_unit` is a single
+// column like "2 x 3.50"
+export type CsvField = keyof CSVRow | 'quantity_x_unit';
+
+export type CsvColumnMapping = {
+  columns: Partial<Record<CsvField, string>>; // field -> header as written in the file
+  moneyInCents?: boolean; // price, unit price and total columns are whole cents
+};
+
+// A saved mapping for one store's export format
+export type ImportPreset = {
+  id: string;
+  name: string;
+  mapping: CsvColumnMapping;
+  savedAt: string;
 };
\ No newline at end of file